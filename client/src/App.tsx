@@ -2,10 +2,14 @@ import { useState, useRef, useEffect, useCallback } from 'react'
 import './App.css'
 import * as Y from 'yjs'
 import YPartyKitProvider from 'y-partykit/provider'
-import { YjsPartyProvider } from './YjsPartyProvider'
+import { YjsPartyProvider, type SaveStatus } from './YjsPartyProvider'
+import type { CompactionNotice, DirectDelivery, RoomConfigSnapshot } from '../../shared/custom-messages'
+import type { ProtocolAgreement } from '../../shared/protocol'
 import { useEditor, EditorContent } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
 import Collaboration from '@tiptap/extension-collaboration'
+import { AuthorHighlight, setAuthorHighlight } from './AuthorHighlight'
+import type { Blame } from '../../shared/edit-attribution'
 
 interface LogEntry {
   timestamp: string
@@ -41,18 +45,36 @@ function App() {
   const providerRef = useRef<YPartyKitProvider | null>(null)
   const customProviderRef = useRef<YjsPartyProvider | null>(null)
   const [fragReady, setFragReady] = useState(false)
+  const [docGeneration, setDocGeneration] = useState(0)  // Bumped when a room reset replaces the doc
   const [awarenessStates, setAwarenessStates] = useState<Map<number, any>>(new Map())
   const [testMessage, setTestMessage] = useState('')
   const [awarenessEnabled, setAwarenessEnabled] = useState(false)
   const awarenessEnabledRef = useRef(false)  // Use ref so event handler can access current value
   const [connectionCount, setConnectionCount] = useState<number | null>(null)
   const [currentMode, setCurrentMode] = useState<'solo' | 'multi'>('solo')
-  const [connectedUsers, setConnectedUsers] = useState<Array<{ id: string; name: string; color: string; profile_picture_url: string }>>([])
+  const [connectedUsers, setConnectedUsers] = useState<Array<{ id: string; userId: string | null; name: string; color: string; profile_picture_url: string | null }>>([])
+  // Our identity, sent to the server with 'hello' (remembered across reloads)
+  const [userName, setUserName] = useState(() => localStorage.getItem('yjs-user-name') || '')
+  const [userColor, setUserColor] = useState(() => localStorage.getItem('yjs-user-color') || '#4ECDC4')
+  const [joinAsViewer, setJoinAsViewer] = useState(false)
+  const [keepLocalCopy, setKeepLocalCopy] = useState(() => localStorage.getItem('yjs-local-persistence') === '1')
+  const [saveStatus, setSaveStatus] = useState<SaveStatus | null>(null)
+  // Point YPartyKitProvider at our hibernation-safe server (standard y-websocket wire)
+  const [yjsOnCustomServer, setYjsOnCustomServer] = useState(false)
+  const [readOnly, setReadOnly] = useState(false)
+  const [highlightAuthors, setHighlightAuthors] = useState(false)
+  const [blameAuthors, setBlameAuthors] = useState<Blame['authors']>([])
+
+  // Edit attribution (/blame) only exists on the custom Yjs server
+  const blameUrl = backend === 'custom-yjs' || (backend === 'yjs' && yjsOnCustomServer)
+    ? 'https://partykit-test.cloudflare-manatee010.workers.dev/parties/yjs-party/test-room/blame'
+    : null
 
   // Tiptap editor with Yjs collaboration - MUST use fragment like MindGame does
   const editor = useEditor({
     extensions: [
       StarterKit,
+      AuthorHighlight,
       ...(fragReady && yjsFragRef.current ? [Collaboration.configure({
         fragment: yjsFragRef.current,  // Pass fragment, not document
       })] : []),
@@ -65,7 +87,12 @@ function App() {
         timestamp: new Date().toISOString()
       })
     }
-  }, [fragReady])  // Recreate editor when fragment becomes ready
+  }, [fragReady, docGeneration])  // Recreate editor when fragment becomes ready (or is replaced)
+
+  // Viewers get a read-only editor (the server drops their updates anyway)
+  useEffect(() => {
+    editor?.setEditable(!readOnly)
+  }, [editor, readOnly])
 
   const addLog = useCallback((type: LogEntry['type'], message: string) => {
     setLogs(prev => [...prev, {
@@ -75,6 +102,45 @@ function App() {
     }])
   }, [])
 
+  // Highlight by author: fetch /blame, and again shortly after edits stop
+  useEffect(() => {
+    if (!editor) return
+    if (!highlightAuthors || !blameUrl) {
+      setAuthorHighlight(editor, null)
+      setBlameAuthors([])
+      return
+    }
+
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | null = null
+    // Same page token as the WebSocket - /blame needs one when the server has AUTH_SECRET
+    const token = new URLSearchParams(window.location.search).get('token')
+    const refresh = async () => {
+      try {
+        const response = await fetch(blameUrl, token ? { headers: { Authorization: `Bearer ${token}` } } : undefined)
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const blame: Blame = await response.json()
+        if (cancelled || editor.isDestroyed) return
+        setAuthorHighlight(editor, blame)
+        setBlameAuthors(blame.authors)
+      } catch (error) {
+        if (!cancelled) addLog('error', `Failed to fetch /blame: ${error}`)
+      }
+    }
+    const onUpdate = () => {
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(refresh, 1000)
+    }
+
+    refresh()
+    editor.on('update', onUpdate)
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+      editor.off('update', onUpdate)
+    }
+  }, [editor, highlightAuthors, blameUrl, addLog])
+
   const connectWebSocket = useCallback(() => {
     // Switch between backends
     let wsUrl: string
@@ -90,8 +156,10 @@ function App() {
         backendName = 'PartyServer'
         break
       case 'yjs':
-        wsUrl = 'wss://y-partykit-test.cloudflare-manatee010.workers.dev/parties/y-party-kit-test-server/test-room'
-        backendName = 'Y-PartyServer (Yjs)'
+        wsUrl = yjsOnCustomServer
+          ? 'wss://partykit-test.cloudflare-manatee010.workers.dev/parties/yjs-party/test-room?wire=y-websocket'
+          : 'wss://y-partykit-test.cloudflare-manatee010.workers.dev/parties/y-party-kit-test-server/test-room'
+        backendName = yjsOnCustomServer ? 'YPartyKitProvider → Custom Yjs PartyServer' : 'Y-PartyServer (Yjs)'
         break
       case 'custom-yjs':
         wsUrl = 'wss://partykit-test.cloudflare-manatee010.workers.dev'
@@ -110,26 +178,68 @@ function App() {
       yjsFragRef.current = frag
       setFragReady(true)
       
-      const provider = new YjsPartyProvider(wsUrl, 'test-room', doc)
+      // Auth token (HS256 JWT) can be passed to the page as ?token=...
+      const token = new URLSearchParams(window.location.search).get('token') || undefined
+      // Optional avatar can be passed to the page as ?avatar=https://...
+      const avatar = new URLSearchParams(window.location.search).get('avatar')
+      localStorage.setItem('yjs-user-name', userName)
+      localStorage.setItem('yjs-user-color', userColor)
+      localStorage.setItem('yjs-local-persistence', keepLocalCopy ? '1' : '0')
+      const provider = new YjsPartyProvider(wsUrl, 'test-room', doc, {
+        token,
+        readOnly: joinAsViewer,
+        persistence: keepLocalCopy,
+        user: { name: userName.trim() || 'Anonymous', color: userColor, profile_picture_url: avatar }
+      })
       customProviderRef.current = provider
+      setReadOnly(joinAsViewer)
+      setSaveStatus(provider.saveStatus)
+      
+      provider.on('save-status', (status: SaveStatus) => {
+        setSaveStatus(status)
+      })
+      
+      provider.on('local-loaded', ({ updates, epoch }: { updates: number; epoch: number | null }) => {
+        addLog('info', `💾 Loaded local copy: ${updates} update(s)${epoch !== null ? `, reset epoch ${epoch}` : ''}`)
+      })
       
       // DON'T set initial awareness - we want to test hibernation!
       // User will manually send awareness via button
       
       // Track awareness changes (but only log if awareness is enabled)
-      provider.awareness.on('change', () => {
-        const states = new Map(provider.awareness.getStates())
-        setAwarenessStates(states)
-        // Only log awareness changes if user has explicitly enabled it
-        if (awarenessEnabledRef.current && states.size > 0) {
-          addLog('info', `👥 Awareness changed: ${states.size} user(s) active`)
-        }
+      const watchAwareness = (awareness: typeof provider.awareness) => {
+        awareness.on('change', () => {
+          const states = new Map(awareness.getStates())
+          setAwarenessStates(states)
+          // Only log awareness changes if user has explicitly enabled it
+          if (awarenessEnabledRef.current && states.size > 0) {
+            addLog('info', `👥 Awareness changed: ${states.size} user(s) active`)
+          }
+        })
+      }
+      watchAwareness(provider.awareness)
+      
+      provider.on('compacted', (notice: CompactionNotice) => {
+        addLog('info', `🪦 Server compacted tombstones: ${notice.beforeBytes}B → ${notice.afterBytes}B (${notice.trigger})`)
+      })
+      
+      // Room was cleared on the server - the provider switched to a fresh doc, rebind the editor to it
+      provider.on('reset', ({ doc: freshDoc, awareness, previousDoc }: { doc: Y.Doc; awareness: typeof provider.awareness; previousDoc: Y.Doc }) => {
+        yjsDocRef.current = freshDoc
+        yjsFragRef.current = freshDoc.getXmlFragment('prosemirror')
+        setDocGeneration(generation => generation + 1)
+        setAwarenessStates(new Map())
+        watchAwareness(awareness)
+        previousDoc.destroy()
+        addLog('warning', '🧹 Room was reset on the server - local document discarded, resyncing')
       })
       
       provider.on('status', async (event: { status: string }) => {
         console.log('[CustomYjs] Status:', event.status)
         addLog('info', `🔌 CustomYjs status: ${event.status}`)
         setActualState(event.status === 'connected' ? 'connected' : 'disconnected')
+        // Read-only is per connection - a 'read-only' message follows if it still is
+        if (event.status === 'connected') setReadOnly(provider.readOnly)
         
         // Fetch status when connected to show connection count
         if (event.status === 'connected') {
@@ -143,6 +253,32 @@ function App() {
         }
       })
       
+      provider.on('error', (event: { type: string; reason?: string }) => {
+        console.log('[CustomYjs] Error:', event)
+        addLog('error', `🔒 CustomYjs ${event.type}: ${event.reason || 'no reason given'}`)
+      })
+      
+      provider.on('protocol', (agreement: ProtocolAgreement) => {
+        addLog('info', `🤝 Protocol v${agreement.version} (server v${agreement.serverVersion}): ${agreement.capabilities.join(', ') || 'no capabilities'}`)
+      })
+      
+      provider.on('room-config', (snapshot: RoomConfigSnapshot) => {
+        addLog('info', `⚙️ Room config v${snapshot.version}: ${JSON.stringify({ config: snapshot.config, mode: snapshot.mode })}`)
+      })
+      
+      provider.on('read-only', (data: { reason?: string; droppedBytes?: number }) => {
+        setReadOnly(true)
+        addLog('warning', `👁️ Read-only: ${data?.reason || 'viewer connection'}${data?.droppedBytes ? ` (dropped ${data.droppedBytes}B)` : ''}`)
+      })
+      
+      provider.on('direct', ({ from, payload }: DirectDelivery) => {
+        addLog('info', `📬 Direct message from ${from.name || from.connectionId.slice(0, 8)}: ${JSON.stringify(payload)}`)
+      })
+      
+      provider.on('direct-error', (data: { reason: string }) => {
+        addLog('error', `📭 Direct message not delivered: ${data.reason}`)
+      })
+      
       provider.on('sync', (isSynced: boolean) => {
         console.log('[CustomYjs] Synced:', isSynced)
         addLog('success', `✅ CustomYjs synced: ${isSynced}`)
@@ -150,7 +286,9 @@ function App() {
       
       provider.on('custom', (msg: any) => {
         console.log('[CustomYjs] Custom message received:', msg)
-        if (msg.type === 'connection-count') {
+        if (msg.type === 'saved') {
+          // Shown as the save status badge
+        } else if (msg.type === 'connection-count') {
           const data = msg.data;
           console.log('[CustomYjs] Status update:', data)
           
@@ -227,15 +365,26 @@ function App() {
         })
       })
       
-      // YPartyKitProvider connects to Y-PartyServer (not regular y-websocket!)
-      const provider = new YPartyKitProvider(
-        'y-partykit-test.cloudflare-manatee010.workers.dev',
-        'test-room',
-        doc,
-        {
-          party: 'y-party-kit-test-server' // CRITICAL: Must match our server name in wrangler.toml!
-        }
-      )
+      // YPartyKitProvider connects to Y-PartyServer (not regular y-websocket!),
+      // or to YjsPartyServer speaking the standard wire
+      const provider = yjsOnCustomServer
+        ? new YPartyKitProvider(
+            'partykit-test.cloudflare-manatee010.workers.dev',
+            'test-room',
+            doc,
+            {
+              party: 'yjs-party',
+              params: { wire: 'y-websocket' }
+            }
+          )
+        : new YPartyKitProvider(
+            'y-partykit-test.cloudflare-manatee010.workers.dev',
+            'test-room',
+            doc,
+            {
+              party: 'y-party-kit-test-server' // CRITICAL: Must match our server name in wrangler.toml!
+            }
+          )
       providerRef.current = provider
       
       // BLOCK AWARENESS HEARTBEATS - only allow actual Yjs sync messages
@@ -321,7 +470,7 @@ function App() {
     ws.onerror = (error) => {
       addLog('error', `❌ WebSocket ERROR: ${error}`)
     }
-  }, [backend, addLog])
+  }, [backend, addLog, joinAsViewer, userName, userColor, yjsOnCustomServer, keepLocalCopy])
 
   // Toggle function - updates intended state
   const toggleConnection = () => {
@@ -348,6 +497,8 @@ function App() {
         yjsDocRef.current = null
         yjsFragRef.current = null
         setFragReady(false)
+        setReadOnly(false)
+        setSaveStatus(null)
         // Immediately set to disconnected since we destroyed the provider
         setActualState('disconnected')
         addLog('success', '✅ Disconnected')
@@ -427,6 +578,13 @@ function App() {
     }
   };
 
+  const sendNudge = (connectionId: string, name: string) => {
+    if (backend === 'custom-yjs' && customProviderRef.current) {
+      customProviderRef.current.sendDirect({ connectionId }, { kind: 'nudge', text: `${userName || 'Someone'} nudged you 👋` })
+      addLog('info', `👉 Sent nudge to ${name}`)
+    }
+  }
+
   const clearAwareness = () => {
     if (backend === 'custom-yjs' && customProviderRef.current) {
       customProviderRef.current.clearAwareness();
@@ -457,7 +615,9 @@ function App() {
           baseUrl = 'https://partykit-test.cloudflare-manatee010.workers.dev/parties/partykit-test-party/test-room'
           break
         case 'yjs':
-          baseUrl = 'https://y-partykit-test.cloudflare-manatee010.workers.dev/parties/y-party-kit-test-server/test-room'
+          baseUrl = yjsOnCustomServer
+            ? 'https://partykit-test.cloudflare-manatee010.workers.dev/parties/yjs-party/test-room'
+            : 'https://y-partykit-test.cloudflare-manatee010.workers.dev/parties/y-party-kit-test-server/test-room'
           break
         case 'custom-yjs':
           baseUrl = 'https://partykit-test.cloudflare-manatee010.workers.dev/parties/yjs-party/test-room'
@@ -530,6 +690,17 @@ function App() {
           />
           {' '}Y-PartyServer (breaks hibernation ❌)
         </label>
+        {backend === 'yjs' && (
+          <label style={{ display: 'block', marginBottom: '10px', marginLeft: '20px' }}>
+            <input
+              type="checkbox"
+              checked={yjsOnCustomServer}
+              onChange={(e) => setYjsOnCustomServer(e.target.checked)}
+              disabled={actualState !== 'disconnected'}
+            />
+            {' '}Use Custom Yjs server (standard y-websocket wire, hibernation compatible)
+          </label>
+        )}
         <label style={{ display: 'block', marginBottom: '10px' }}>
           <input 
             type="radio" 
@@ -541,11 +712,52 @@ function App() {
           />
           {' '}Custom Yjs (hibernation compatible ✅)
         </label>
+        {backend === 'custom-yjs' && (
+          <label style={{ display: 'block', marginBottom: '10px', marginLeft: '20px' }}>
+            <input
+              type="checkbox"
+              checked={joinAsViewer}
+              onChange={(e) => setJoinAsViewer(e.target.checked)}
+              disabled={actualState !== 'disconnected'}
+            />
+            {' '}Join as viewer (read-only)
+          </label>
+        )}
+        {backend === 'custom-yjs' && (
+          <label style={{ display: 'block', marginBottom: '10px', marginLeft: '20px' }}>
+            <input
+              type="checkbox"
+              checked={keepLocalCopy}
+              onChange={(e) => setKeepLocalCopy(e.target.checked)}
+              disabled={actualState !== 'disconnected'}
+            />
+            {' '}Keep a local copy (IndexedDB - edits survive reloads while offline)
+          </label>
+        )}
+        {backend === 'custom-yjs' && (
+          <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '10px', marginLeft: '20px' }}>
+            <input
+              type="text"
+              value={userName}
+              onChange={(e) => setUserName(e.target.value)}
+              placeholder="Your name"
+              maxLength={64}
+              disabled={actualState !== 'disconnected'}
+              style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ddd' }}
+            />
+            <input
+              type="color"
+              value={userColor}
+              onChange={(e) => setUserColor(e.target.value)}
+              disabled={actualState !== 'disconnected'}
+            />
+          </div>
+        )}
         <div className="backend-status">
           Currently testing: <strong>
             {backend === 'raw' && 'Raw Cloudflare'}
             {backend === 'partykit' && 'PartyServer'}
-            {backend === 'yjs' && 'Y-PartyServer (Yjs)'}
+            {backend === 'yjs' && (yjsOnCustomServer ? 'YPartyKitProvider → Custom Yjs (standard wire)' : 'Y-PartyServer (Yjs)')}
             {backend === 'custom-yjs' && 'Custom Yjs (Hibernation Compatible)'}
           </strong>
         </div>
@@ -581,6 +793,18 @@ function App() {
       {(backend === 'yjs' || backend === 'custom-yjs') && (providerRef.current || customProviderRef.current) && (
         <div className="yjs-test-area" style={{ margin: '20px 0', padding: '15px', border: '2px solid #4CAF50', borderRadius: '8px', backgroundColor: '#f9f9f9' }}>
           <h3 style={{ marginTop: 0, color: '#4CAF50' }}>🔄 Tiptap with Yjs Collaboration</h3>
+          {backend === 'custom-yjs' && saveStatus && (
+            <div style={{ marginBottom: '10px', fontSize: '13px' }}>
+              {saveStatus === 'saved-on-server' && '☁️ Saved on server'}
+              {saveStatus === 'saved-locally' && '💾 Saved locally - not on the server yet'}
+              {saveStatus === 'unsaved' && '✏️ Not saved yet'}
+            </div>
+          )}
+          {readOnly && (
+            <div style={{ marginBottom: '10px', padding: '8px', backgroundColor: '#fff3cd', borderRadius: '4px', fontSize: '13px' }}>
+              👁️ <strong>Read-only:</strong> You are viewing this document. Your changes will not be saved.
+            </div>
+          )}
           <div style={{
             border: '1px solid #ddd',
             borderRadius: '4px',
@@ -594,6 +818,24 @@ function App() {
               <p style={{ color: '#999' }}>Loading editor...</p>
             )}
           </div>
+          {blameUrl && (
+            <div style={{ marginTop: '10px', display: 'flex', alignItems: 'center', gap: '10px', flexWrap: 'wrap', fontSize: '13px' }}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={highlightAuthors}
+                  onChange={(e) => setHighlightAuthors(e.target.checked)}
+                />
+                {' '}Highlight by author
+              </label>
+              {highlightAuthors && blameAuthors.map((author, i) => (
+                <span key={i} style={{ display: 'inline-flex', alignItems: 'center', gap: '4px' }}>
+                  <span style={{ display: 'inline-block', width: '10px', height: '10px', borderRadius: '50%', backgroundColor: author.color ?? '#999' }}></span>
+                  {author.name}{author.origin !== 'client' && ' (server)'}
+                </span>
+              ))}
+            </div>
+          )}
           <div style={{ marginTop: '10px', fontSize: '12px', color: '#666' }}>
             💡 <strong>Tip:</strong> Open multiple tabs/browsers and type to see real-time CRDT sync!
           </div>
@@ -660,11 +902,17 @@ function App() {
                       <div style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
                         {connectedUsers.map(user => (
                           <div key={user.id} style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
-                            <img 
-                              src={user.profile_picture_url} 
-                              alt={user.name}
-                              style={{ width: '32px', height: '32px', borderRadius: '50%', border: `2px solid ${user.color}` }}
-                            />
+                            {user.profile_picture_url ? (
+                              <img 
+                                src={user.profile_picture_url} 
+                                alt={user.name}
+                                style={{ width: '32px', height: '32px', borderRadius: '50%', border: `2px solid ${user.color}` }}
+                              />
+                            ) : (
+                              <div style={{ width: '32px', height: '32px', borderRadius: '50%', backgroundColor: user.color, color: 'white', display: 'flex', alignItems: 'center', justifyContent: 'center', fontWeight: 'bold' }}>
+                                {user.name.charAt(0).toUpperCase()}
+                              </div>
+                            )}
                             <div style={{ flex: 1 }}>
                               <div style={{ fontWeight: 'bold' }}>{user.name}</div>
                               <div style={{ fontSize: '11px', color: '#666' }}>{user.id.slice(0, 8)}...</div>
@@ -679,6 +927,9 @@ function App() {
                                 boxShadow: '0 0 0 1px #ddd'
                               }}
                             />
+                            <button onClick={() => sendNudge(user.id, user.name)} className="btn-secondary" style={{ padding: '2px 8px', fontSize: '12px' }}>
+                              👋 Nudge
+                            </button>
                           </div>
                         ))}
                       </div>
@@ -0,0 +1,73 @@
+/**
+ * Highlight-by-author view for the Tiptap editor
+ *
+ * Colors the text ranges of a GET /blame response (shared/edit-attribution.ts)
+ * with their author's color, with name and time as a tooltip. The blame is
+ * handed to the plugin with setAuthorHighlight(); until the next one arrives
+ * the decorations are mapped through local and remote edits, so they stay
+ * put while the caller re-fetches. Passing null turns the view off.
+ */
+
+import { Extension } from '@tiptap/react'
+import type { Editor } from '@tiptap/react'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import type { Blame } from '../../shared/edit-attribution'
+
+const authorHighlightKey = new PluginKey<DecorationSet>('authorHighlight')
+
+// Content written before attribution was recorded
+const UNKNOWN_AUTHOR_COLOR = '#999999'
+
+function decorations(doc: ProseMirrorNode, blame: Blame | null): DecorationSet {
+  if (!blame) return DecorationSet.empty
+
+  const size = doc.content.size
+  const decos = blame.ranges.flatMap(range => {
+    // The server may be a few edits ahead of (or behind) this doc
+    const from = Math.min(range.from, size)
+    const to = Math.min(range.to, size)
+    if (from >= to) return []
+
+    const author = range.author === null ? null : blame.authors[range.author]
+    const color = author?.color ?? UNKNOWN_AUTHOR_COLOR
+    const who = author ? (author.origin === 'client' ? author.name : `${author.name} (server)`) : 'Unknown author'
+    const when = range.at ? ` · ${new Date(range.at).toLocaleString()}` : ''
+    return [Decoration.inline(from, to, {
+      style: `background-color: ${color}33; border-bottom: 2px solid ${color}`,
+      title: `${who}${when}`
+    })]
+  })
+  return DecorationSet.create(doc, decos)
+}
+
+export const AuthorHighlight = Extension.create({
+  name: 'authorHighlight',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DecorationSet>({
+        key: authorHighlightKey,
+        state: {
+          init: () => DecorationSet.empty,
+          apply: (tr, set) => {
+            const blame = tr.getMeta(authorHighlightKey) as Blame | null | undefined
+            if (blame !== undefined) return decorations(tr.doc, blame)
+            return set.map(tr.mapping, tr.doc)
+          }
+        },
+        props: {
+          decorations: state => authorHighlightKey.getState(state)
+        }
+      })
+    ]
+  }
+})
+
+/**
+ * Show a /blame response in the editor, or clear the highlight (null)
+ */
+export function setAuthorHighlight(editor: Editor, blame: Blame | null) {
+  editor.view.dispatch(editor.state.tr.setMeta(authorHighlightKey, blame).setMeta('addToHistory', false))
+}
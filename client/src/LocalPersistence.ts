@@ -0,0 +1,124 @@
+/**
+ * IndexedDB copy of a Y.Doc for YjsPartyProvider (offline-first)
+ *
+ * One database per room with two object stores:
+ *
+ *   updates  -> Yjs updates, auto-incrementing keys (load order)
+ *   meta     -> 'epoch': reset epoch of the server doc the updates belong to
+ *
+ * Every update of the doc - local edits and whatever came from the server -
+ * is appended, so a reload while offline gets everything back. Once there
+ * are COMPACT_THRESHOLD entries they are replaced by one full state update
+ * in a single transaction.
+ *
+ * Writes are queued; `pending` counts those not yet committed.
+ */
+
+import * as Y from 'yjs';
+
+const UPDATES_STORE = 'updates';
+const META_STORE = 'meta';
+const EPOCH_KEY = 'epoch';
+
+// Stored updates before they are merged into one
+const COMPACT_THRESHOLD = 200;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export class LocalPersistence {
+  private queue: Promise<void> = Promise.resolve();
+  private count = 0;
+  public pending = 0;
+
+  private constructor(private db: IDBDatabase) {}
+
+  static async open(name: string): Promise<LocalPersistence> {
+    const req = indexedDB.open(name, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(UPDATES_STORE, { autoIncrement: true });
+      req.result.createObjectStore(META_STORE);
+    };
+    return new LocalPersistence(await request(req));
+  }
+
+  /**
+   * Apply every stored update to `doc` (with this as the transaction origin).
+   * Returns the reset epoch they belong to, null if unknown.
+   */
+  async load(doc: Y.Doc): Promise<{ epoch: number | null; updates: number }> {
+    const tx = this.db.transaction([UPDATES_STORE, META_STORE], 'readonly');
+    const [updates, epoch] = await Promise.all([
+      request(tx.objectStore(UPDATES_STORE).getAll() as IDBRequest<Uint8Array[]>),
+      request(tx.objectStore(META_STORE).get(EPOCH_KEY) as IDBRequest<number | undefined>)
+    ]);
+    this.count = updates.length;
+    Y.transact(doc, () => {
+      updates.forEach(update => Y.applyUpdate(doc, update));
+    }, this);
+    return { epoch: epoch ?? null, updates: updates.length };
+  }
+
+  /** Append an update, compacting the store once it gets long */
+  store(update: Uint8Array, doc: Y.Doc): Promise<void> {
+    const compact = ++this.count >= COMPACT_THRESHOLD;
+    if (compact) this.count = 1;
+    return this.enqueue(async () => {
+      const tx = this.db.transaction(UPDATES_STORE, 'readwrite');
+      const updates = tx.objectStore(UPDATES_STORE);
+      if (compact) {
+        // The doc already contains this update and everything stored before it
+        updates.clear();
+        updates.add(Y.encodeStateAsUpdate(doc));
+      } else {
+        updates.add(update);
+      }
+      await transactionDone(tx);
+    });
+  }
+
+  setEpoch(epoch: number): Promise<void> {
+    return this.enqueue(async () => {
+      const tx = this.db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(epoch, EPOCH_KEY);
+      await transactionDone(tx);
+    });
+  }
+
+  /** Drop every stored update (the room was reset) and remember the new epoch */
+  clear(epoch: number): Promise<void> {
+    this.count = 0;
+    return this.enqueue(async () => {
+      const tx = this.db.transaction([UPDATES_STORE, META_STORE], 'readwrite');
+      tx.objectStore(UPDATES_STORE).clear();
+      tx.objectStore(META_STORE).put(epoch, EPOCH_KEY);
+      await transactionDone(tx);
+    });
+  }
+
+  /** Close once queued writes are done */
+  async destroy() {
+    await this.queue;
+    this.db.close();
+  }
+
+  // Writes run one at a time, in order; a failed one doesn't block the rest
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    this.pending++;
+    const result = this.queue.then(write).finally(() => { this.pending--; });
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
@@ -1,6 +1,13 @@
 /**
  * Custom Yjs provider for our hibernation-compatible YjsPartyServer
  * Handles sync, awareness, and custom messages
+ *
+ * With `persistence: true` the doc is also kept in IndexedDB (see
+ * LocalPersistence.ts): stored updates are loaded before connecting and
+ * reconciled with the server by the usual sync step 1/2 exchange, so edits
+ * made offline survive a reload. The server's 'saved' messages tell us what
+ * it has written to storage; saveStatus / the 'save-status' event say whether
+ * the doc is saved on the server, only locally, or not yet.
  */
 
 import * as Y from 'yjs';
@@ -8,17 +15,59 @@ import * as syncProtocol from 'y-protocols/sync';
 import * as awarenessProtocol from 'y-protocols/awareness';
 import * as encoding from 'lib0/encoding';
 import * as decoding from 'lib0/decoding';
+import * as buffer from 'lib0/buffer';
+import { LocalPersistence } from './LocalPersistence';
+import {
+  SchemaError,
+  parseClientMessageData,
+  type ClientMessage,
+  type ClientMessageType,
+  type CompactionNotice,
+  type CustomMessage,
+  type DirectDelivery,
+  type DirectTarget,
+  type ResetNotice,
+  type RoomConfigSnapshot,
+  type SavedNotice
+} from '../../shared/custom-messages';
+import {
+  CAPABILITIES,
+  CLOSE_PROTOCOL_MISMATCH,
+  CLOSE_RATE_LIMITED,
+  CLOSE_UNAUTHORIZED,
+  MESSAGE_AWARENESS,
+  MESSAGE_CUSTOM,
+  MESSAGE_SYNC,
+  PROTOCOL_VERSION,
+  protocolOfferParams,
+  type ProtocolAgreement
+} from '../../shared/protocol';
 
-const MESSAGE_SYNC = 0;
-const MESSAGE_AWARENESS = 1;
-const MESSAGE_CUSTOM = 2;
+// Oldest server protocol this provider can talk to (hello, reset, ...)
+const MIN_SERVER_PROTOCOL_VERSION = 2;
 
-interface CustomMessage {
-  type: 'config' | 'mode' | 'ping' | 'pong' | 'connection-count';
-  data?: any;
-  timestamp?: string;
+// A fixed token, or a function called before every (re)connect to fetch a fresh one
+export type TokenSource = string | (() => string | Promise<string>);
+
+// Identity announced to the server with a 'hello' message on every connect
+export interface UserInfo {
+  name: string;
+  color: string;  // Hex color, e.g. #FF6B6B
+  profile_picture_url?: string | null;
+}
+
+export interface YjsPartyProviderOptions {
+  token?: TokenSource;
+  user?: UserInfo;
+  // Join as viewer - the server ignores our document updates
+  readOnly?: boolean;
+  // Keep a copy of the doc in IndexedDB, loaded before connecting (offline-first)
+  persistence?: boolean;
 }
 
+// 'saved-on-server' once the server's last 'saved' state vector covers our doc
+export type SaveStatus = 'unsaved' | 'saved-locally' | 'saved-on-server';
+
 export class YjsPartyProvider {
   private ws: WebSocket | null = null;
   private doc: Y.Doc;
@@ -27,33 +76,188 @@ export class YjsPartyProvider {
   private synced = false;
   private listeners: Map<string, Set<Function>> = new Map();
   private destroyed = false;  // Track if provider was explicitly destroyed
+  private token: TokenSource | undefined;
+  private user: UserInfo | undefined;
+  private joinAsViewer: boolean;  // options.readOnly - what we ask the server for
+  private serverReadOnly = false;  // Server said 'read-only' (viewer token) - per connection
+  public roomConfig: RoomConfigSnapshot | null = null;  // Sent by the server on connect and on every change
+  private resetEpoch: number | null = null;  // Last reset we acted on
+  public protocol: ProtocolAgreement | null = null;  // Agreed with the server on every connect
+  private local: LocalPersistence | null = null;
+  private serverStateVector: Map<number, number> | null = null;  // From the last 'saved' message
+  public saveStatus: SaveStatus = 'unsaved';
+  public whenLoaded: Promise<void>;  // Local copy loaded (resolves right away without persistence)
 
-  constructor(url: string, roomName: string, doc: Y.Doc) {
+  constructor(url: string, roomName: string, doc: Y.Doc, options: YjsPartyProviderOptions = {}) {
+    this.token = options.token;
+    this.user = options.user;
+    this.joinAsViewer = options.readOnly ?? false;
     this.doc = doc;
     this.awareness = new awarenessProtocol.Awareness(doc);
     this.url = `${url}/parties/yjs-party/${roomName}`;
 
     // Listen to local doc changes and send to server
-    this.doc.on('update', (update: Uint8Array, origin: any) => {
-      if (origin !== this && this.ws?.readyState === WebSocket.OPEN) {
-        console.log('[YjsPartyProvider] Sending update to server:', update.length, 'bytes');
-        const encoder = encoding.createEncoder();
-        encoding.writeVarUint(encoder, MESSAGE_SYNC);
-        syncProtocol.writeUpdate(encoder, update);
-        this.ws.send(encoding.toUint8Array(encoder));
-      }
-    });
+    this.doc.on('update', this.handleDocUpdate);
 
     // DON'T listen to awareness changes automatically!
     // Client will manually send awareness updates via sendAwarenessUpdate()
     // This gives full control - no automatic heartbeats, no hidden traffic
 
-    this.connect();
+    if (options.persistence) {
+      this.whenLoaded = this.loadLocal();
+      this.whenLoaded.then(() => {
+        if (!this.destroyed) this.connect();
+      });
+    } else {
+      this.whenLoaded = Promise.resolve();
+      this.connect();
+    }
+  }
+
+  // Our updates are ignored - we asked to be a viewer, or the token only allows viewing
+  public get readOnly(): boolean {
+    return this.joinAsViewer || this.serverReadOnly;
+  }
+
+  private handleDocUpdate = (update: Uint8Array, origin: any) => {
+    if (this.local && origin !== this.local) {
+      this.local.store(update, this.doc)
+        .catch(e => console.error('[YjsPartyProvider] Failed to store update locally:', e))
+        .finally(() => this.updateSaveStatus());
+    }
+    this.updateSaveStatus();
+
+    if (origin !== this && !this.readOnly && this.ws?.readyState === WebSocket.OPEN) {
+      console.log('[YjsPartyProvider] Sending update to server:', update.length, 'bytes');
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeUpdate(encoder, update);
+      this.ws.send(encoding.toUint8Array(encoder));
+    }
+  };
+
+  // The current doc - replaced by a fresh one when the server resets the room
+  getDoc(): Y.Doc {
+    return this.doc;
+  }
+
+  // Load the IndexedDB copy into the doc. Without IndexedDB we carry on in memory.
+  private async loadLocal() {
+    try {
+      const local = await LocalPersistence.open(`yjs-party-provider:${this.url}`);
+      if (this.destroyed) {
+        local.destroy();
+        return;
+      }
+      const { epoch, updates } = await local.load(this.doc);
+      this.local = local;
+      this.resetEpoch = epoch;
+      console.log('[YjsPartyProvider] Loaded', updates, 'local updates (reset epoch', epoch + ')');
+      this.emit('local-loaded', { updates, epoch });
+    } catch (e) {
+      console.error('[YjsPartyProvider] Local persistence unavailable:', e);
+      this.emit('error', { type: 'local-persistence', reason: `Local persistence unavailable - ${e}` });
+    }
+    this.updateSaveStatus();
+  }
+
+  // What the server has in storage. Arrives before sync step 1 on every connect,
+  // so a doc from before a reset we missed is dropped before it can be synced back.
+  private handleSaved(notice: SavedNotice) {
+    if (this.resetEpoch !== null && notice.epoch > this.resetEpoch) {
+      this.handleReset({ epoch: notice.epoch, backup: null, reason: 'The document was cleared while this tab was away' });
+    } else if (this.resetEpoch === null) {
+      this.resetEpoch = notice.epoch;
+      this.local?.setEpoch(notice.epoch).catch(e => console.error('[YjsPartyProvider] Failed to store reset epoch:', e));
+    }
+    if (notice.epoch !== this.resetEpoch) return;
+
+    this.serverStateVector = Y.decodeStateVector(buffer.fromBase64(notice.stateVector));
+    this.updateSaveStatus();
+  }
+
+  private updateSaveStatus() {
+    const status: SaveStatus = this.savedOnServer()
+      ? 'saved-on-server'
+      : this.local && this.local.pending === 0 ? 'saved-locally' : 'unsaved';
+    if (status !== this.saveStatus) {
+      this.saveStatus = status;
+      this.emit('save-status', status);
+    }
+  }
+
+  private savedOnServer(): boolean {
+    if (!this.serverStateVector) return false;
+    for (const [client, clock] of Y.decodeStateVector(Y.encodeStateVector(this.doc))) {
+      if ((this.serverStateVector.get(client) ?? 0) < clock) return false;
+    }
+    return true;
+  }
+
+  private sendSyncStep1() {
+    if (this.ws?.readyState !== WebSocket.OPEN) return;
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, this.doc);
+    this.ws.send(encoding.toUint8Array(encoder));
   }
 
-  private connect() {
+  // The room was cleared on the server: our doc still has the old content and
+  // would push it straight back. Swap in an empty doc and sync it from scratch.
+  // Listeners get { doc, awareness, previousDoc } and must rebind their editor.
+  private handleReset(notice: ResetNotice) {
+    // Writes that were already in flight get one notice each - only act once per reset
+    if (this.resetEpoch !== null && notice.epoch <= this.resetEpoch) return;
+    this.resetEpoch = notice.epoch;
+    console.warn('[YjsPartyProvider] Room was reset (epoch', notice.epoch + ') - discarding local doc');
+
+    const previousDoc = this.doc;
+    previousDoc.off('update', this.handleDocUpdate);
+    this.awareness.destroy();
+
+    this.doc = new Y.Doc();
+    this.awareness = new awarenessProtocol.Awareness(this.doc);
+    this.doc.on('update', this.handleDocUpdate);
+    this.synced = false;
+    this.serverStateVector = null;
+    this.local?.clear(notice.epoch).catch(e => console.error('[YjsPartyProvider] Failed to clear local copy:', e));
+    this.updateSaveStatus();
+
+    this.sendSyncStep1();
+    this.emit('reset', { ...notice, doc: this.doc, awareness: this.awareness, previousDoc });
+  }
+
+  private async resolveUrl(): Promise<string> {
+    const params = new URLSearchParams(protocolOfferParams({
+      version: PROTOCOL_VERSION,
+      minVersion: MIN_SERVER_PROTOCOL_VERSION,
+      capabilities: [...CAPABILITIES]
+    }));
+    if (this.token) {
+      params.set('token', typeof this.token === 'function' ? await this.token() : this.token);
+    }
+    if (this.joinAsViewer) {
+      params.set('readonly', '1');
+    }
+    const query = params.toString();
+    return query ? `${this.url}?${query}` : this.url;
+  }
+
+  private async connect() {
+    let url: string;
+    try {
+      url = await this.resolveUrl();
+    } catch (e) {
+      console.error('[YjsPartyProvider] Failed to get token:', e);
+      this.emit('error', { type: 'unauthorized', reason: 'Failed to get token' });
+      return;
+    }
+    if (this.destroyed) return;
+
     console.log('[YjsPartyProvider] Connecting to:', this.url);
-    this.ws = new WebSocket(this.url);
+    // A new token may allow editing - the server says 'read-only' again if not
+    this.serverReadOnly = false;
+    this.ws = new WebSocket(url);
     this.ws.binaryType = 'arraybuffer';
 
     this.ws.onopen = () => {
@@ -61,12 +265,12 @@ export class YjsPartyProvider {
       this.emit('status', { status: 'connected' });
 
       // Send initial sync
-      const encoder = encoding.createEncoder();
-      encoding.writeVarUint(encoder, MESSAGE_SYNC);
-      syncProtocol.writeSyncStep1(encoder, this.doc);
-      this.ws!.send(encoding.toUint8Array(encoder));
+      this.sendSyncStep1();
       console.log('[YjsPartyProvider] Sent initial sync');
 
+      // Tell the server who we are (shows up in connection-count users)
+      this.sendHello();
+
       // DON'T send awareness on connect - client will send manually if needed
     };
 
@@ -80,6 +284,12 @@ export class YjsPartyProvider {
 
       switch (messageType) {
         case MESSAGE_SYNC:
+          // The server negotiates before syncing - one that doesn't predates the handshake
+          if (!this.protocol) {
+            this.protocol = { version: 1, serverVersion: 1, capabilities: [], readOnly: false };
+            console.warn('[YjsPartyProvider] Server did not negotiate a protocol version');
+            this.emit('error', { type: 'protocol-mismatch', reason: 'Server did not negotiate a protocol version - it may be outdated' });
+          }
           encoding.writeVarUint(encoder, MESSAGE_SYNC);
           const syncType = syncProtocol.readSyncMessage(decoder, encoder, this.doc, this);
           
@@ -114,6 +324,39 @@ export class YjsPartyProvider {
           try {
             const msg: CustomMessage = JSON.parse(customData);
             console.log('[YjsPartyProvider] Parsed custom message:', msg);
+            if (msg.type === 'rate-limit') {
+              console.warn('[YjsPartyProvider] Rate limit warning:', msg.data);
+            }
+            if (msg.type === 'direct') {
+              this.emit('direct', msg.data as DirectDelivery);
+            }
+            if (msg.type === 'error' && msg.data?.for === 'direct') {
+              this.emit('direct-error', msg.data);
+            }
+            if (msg.type === 'room-config') {
+              this.roomConfig = msg.data as RoomConfigSnapshot;
+              this.emit('room-config', this.roomConfig);
+            }
+            if (msg.type === 'protocol') {
+              this.protocol = msg.data as ProtocolAgreement;
+              console.log('[YjsPartyProvider] Protocol agreed:', this.protocol);
+              this.emit('protocol', this.protocol);
+            }
+            if (msg.type === 'compacted') {
+              // Ids are unchanged - re-exchange state vectors to pick up anything sent meanwhile
+              this.sendSyncStep1();
+              this.emit('compacted', msg.data as CompactionNotice);
+            }
+            if (msg.type === 'saved') {
+              this.handleSaved(msg.data as SavedNotice);
+            }
+            if (msg.type === 'reset') {
+              this.handleReset(msg.data as ResetNotice);
+            }
+            if (msg.type === 'read-only') {
+              this.serverReadOnly = true;
+              this.emit('read-only', msg.data);
+            }
             this.emit('custom', msg);
           } catch (e) {
             console.error('[YjsPartyProvider] Failed to parse custom message:', e, 'Data:', customData);
@@ -126,6 +369,27 @@ export class YjsPartyProvider {
       console.log('[YjsPartyProvider] Disconnected:', event.code, event.reason);
       this.emit('status', { status: 'disconnected' });
       this.synced = false;
+      this.protocol = null;
+
+      if (event.code === CLOSE_PROTOCOL_MISMATCH) {
+        // Reconnecting won't help - one side has to be updated (usually: reload the page)
+        console.error('[YjsPartyProvider] Protocol mismatch - not reconnecting:', event.reason);
+        this.emit('error', { type: 'protocol-mismatch', code: event.code, reason: event.reason });
+        return;
+      }
+
+      if (event.code === CLOSE_RATE_LIMITED) {
+        this.emit('error', { type: 'rate-limited', code: event.code, reason: event.reason });
+      }
+
+      if (event.code === CLOSE_UNAUTHORIZED) {
+        this.emit('error', { type: 'unauthorized', code: event.code, reason: event.reason });
+        // A fixed token will be rejected again - only retry if we can fetch a fresh one
+        if (typeof this.token !== 'function') {
+          console.warn('[YjsPartyProvider] Unauthorized - not reconnecting (call setToken() to retry)');
+          return;
+        }
+      }
 
       // Only reconnect if not explicitly destroyed
       if (!this.destroyed) {
@@ -141,7 +405,53 @@ export class YjsPartyProvider {
     };
   }
 
+  // Replace the token and reconnect with it
+  setToken(token: TokenSource) {
+    this.token = token;
+    if (this.ws && this.ws.readyState !== WebSocket.CLOSED) {
+      this.ws.close();  // onclose reconnects with the new token
+    } else if (!this.destroyed) {
+      this.connect();
+    }
+  }
+
+  // Update our identity - sent immediately if connected, and on every reconnect
+  setUser(user: UserInfo) {
+    this.user = user;
+    this.sendHello();
+  }
+
+  private sendHello() {
+    if (!this.user) return;
+    this.sendCustomMessage({
+      type: 'hello',
+      data: {
+        name: this.user.name,
+        color: this.user.color,
+        profile_picture_url: this.user.profile_picture_url ?? null
+      }
+    });
+  }
+
+  // Send a payload to one connection or to all connections of a user.
+  // The target gets a 'direct' event; if it's gone we get 'direct-error'.
+  sendDirect(target: DirectTarget, payload: unknown) {
+    this.sendCustomMessage({ type: 'direct', data: { ...target, payload } });
+  }
+
+  // Built-in types are typed and validated with the same schemas the server uses
+  sendCustomMessage<K extends ClientMessageType>(msg: ClientMessage<K>): void;
+  sendCustomMessage(msg: CustomMessage): void;
   sendCustomMessage(msg: CustomMessage) {
+    try {
+      parseClientMessageData(msg.type, msg.data);
+    } catch (e) {
+      if (!(e instanceof SchemaError)) throw e;
+      console.error('[YjsPartyProvider] Not sending invalid custom message:', msg.type, e.message);
+      this.emit('error', { type: 'invalid-message', reason: `Invalid '${msg.type}' message - ${e.message}` });
+      return;
+    }
+
     if (this.ws?.readyState === WebSocket.OPEN) {
       console.log('[YjsPartyProvider] Sending custom message:', msg);
       const encoder = encoding.createEncoder();
@@ -171,6 +481,7 @@ export class YjsPartyProvider {
     this.destroyed = true;  // Mark as destroyed to prevent reconnection
     this.ws?.close();
     this.awareness.destroy();
+    this.local?.destroy();
   }
 
   // Manual awareness control - client decides when to send
@@ -6,6 +6,10 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 3000,
+    fs: {
+      // Allow importing ../shared (custom message definitions shared with the worker)
+      allow: ['..']
+    },
     proxy: {
       '/status': {
         target: 'http://localhost:8787',
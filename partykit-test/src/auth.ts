@@ -0,0 +1,156 @@
+/**
+ * Token verification for YjsPartyServer connections
+ *
+ * Tokens are HMAC-SHA256 signed JWTs (alg: HS256) issued by the application
+ * backend with the shared AUTH_SECRET. Clients pass them as the `token` query
+ * parameter when opening the WebSocket.
+ *
+ * Expected claims:
+ *   sub  - user id (required)
+ *   name - display name (optional)
+ *   role - 'admin' | 'editor' | 'viewer' (optional, defaults to 'editor')
+ *   exp  - expiry, seconds since epoch (optional)
+ *   nbf  - not-before, seconds since epoch (optional)
+ *
+ * Uses WebCrypto only - no dependencies, nothing that keeps the DO awake.
+ */
+
+export type Role = 'admin' | 'editor' | 'viewer';
+
+const ROLES: Role[] = ['admin', 'editor', 'viewer'];
+
+// Allowed clock skew between the token issuer and Cloudflare, in seconds
+const CLOCK_SKEW_SECONDS = 30;
+
+export interface AuthClaims {
+  userId: string;
+  name: string | null;
+  role: Role;
+  expiresAt: number | null; // ms since epoch
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decodeJsonSegment(segment: string): any {
+  try {
+    return JSON.parse(textDecoder.decode(base64UrlDecode(segment)));
+  } catch {
+    throw new AuthError('Malformed token');
+  }
+}
+
+/**
+ * Token of an HTTP request: `Authorization: Bearer <token>`, or ?token= as a fallback.
+ */
+export function requestToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : new URL(request.url).searchParams.get('token');
+}
+
+// Claims of an HTTP request's token, or the 401 response to send
+async function requestClaims(request: Request, secret: string): Promise<AuthClaims | Response> {
+  const token = requestToken(request);
+  try {
+    if (!token) {
+      throw new AuthError('Missing token');
+    }
+    return await verifyToken(token, secret);
+  } catch (e) {
+    const reason = e instanceof AuthError ? e.message : 'Token verification failed';
+    return Response.json({ error: reason }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+  }
+}
+
+/**
+ * Token check for an HTTP request: the 401 response to send, or null if the
+ * request carries a valid token of any role (viewers may read).
+ */
+export async function tokenRequestError(request: Request, secret: string): Promise<Response | null> {
+  const claims = await requestClaims(request, secret);
+  return claims instanceof Response ? claims : null;
+}
+
+/**
+ * Admin check for an HTTP request: the 401/403 response to send, or null if
+ * the request carries a valid admin token.
+ */
+export async function adminRequestError(request: Request, secret: string): Promise<Response | null> {
+  const claims = await requestClaims(request, secret);
+  if (claims instanceof Response) return claims;
+  if (claims.role !== 'admin') {
+    return Response.json({ error: 'Admin role required' }, { status: 403 });
+  }
+  return null;
+}
+
+/**
+ * Verify an HS256 JWT and return the normalized claims.
+ * Throws AuthError if the token is malformed, badly signed or expired.
+ */
+export async function verifyToken(token: string, secret: string): Promise<AuthClaims> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthError('Malformed token');
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+  const header = decodeJsonSegment(headerSegment);
+  if (header?.alg !== 'HS256') {
+    throw new AuthError(`Unsupported token algorithm: ${header?.alg}`);
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    key,
+    base64UrlDecode(signatureSegment),
+    textEncoder.encode(`${headerSegment}.${payloadSegment}`)
+  );
+  if (!valid) {
+    throw new AuthError('Invalid token signature');
+  }
+
+  const payload = decodeJsonSegment(payloadSegment);
+  const nowSeconds = Date.now() / 1000;
+  if (typeof payload.exp === 'number' && nowSeconds > payload.exp + CLOCK_SKEW_SECONDS) {
+    throw new AuthError('Token expired');
+  }
+  if (typeof payload.nbf === 'number' && nowSeconds < payload.nbf - CLOCK_SKEW_SECONDS) {
+    throw new AuthError('Token not yet valid');
+  }
+  if (typeof payload.sub !== 'string' || payload.sub.length === 0) {
+    throw new AuthError('Token is missing the sub claim');
+  }
+
+  return {
+    userId: payload.sub,
+    name: typeof payload.name === 'string' ? payload.name : null,
+    role: ROLES.includes(payload.role) ? payload.role : 'editor',
+    expiresAt: typeof payload.exp === 'number' ? payload.exp * 1000 : null
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * y-protocols awareness encoding without the Awareness class
+ *
+ * Standard Yjs providers (y-websocket, y-partykit) send awareness as a binary
+ * update: [MESSAGE_AWARENESS, varUint8Array(update)] where the update is
+ *
+ *   varUint count
+ *   count x (varUint clientID, varUint clock, varString JSON state)
+ *
+ * y-protocols' Awareness would decode this for us, but it runs a setInterval
+ * that keeps the Durable Object awake. These helpers only read and write the
+ * bytes; YjsPartyServer keeps the states in its own Map.
+ *
+ * A receiving Awareness only accepts a state whose clock is newer than the
+ * one it has, so removals (state: null) are sent with clock + 1.
+ */
+
+import * as decoding from 'lib0/decoding';
+import * as encoding from 'lib0/encoding';
+
+export interface AwarenessWireEntry {
+  clientID: number;
+  clock: number;
+  state: any;  // null = removed
+}
+
+export function decodeAwarenessUpdate(update: Uint8Array): AwarenessWireEntry[] {
+  const decoder = decoding.createDecoder(update);
+  const count = decoding.readVarUint(decoder);
+  const entries: AwarenessWireEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const clientID = decoding.readVarUint(decoder);
+    const clock = decoding.readVarUint(decoder);
+    const state = JSON.parse(decoding.readVarString(decoder));
+    entries.push({ clientID, clock, state });
+  }
+  return entries;
+}
+
+export function encodeAwarenessUpdate(entries: AwarenessWireEntry[]): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, entries.length);
+  for (const { clientID, clock, state } of entries) {
+    encoding.writeVarUint(encoder, clientID);
+    encoding.writeVarUint(encoder, clock);
+    encoding.writeVarString(encoder, JSON.stringify(state));
+  }
+  return encoding.toUint8Array(encoder);
+}
+
+/**
+ * Numeric awareness client id for a connection that only has a string id
+ * (our JSON awareness clients). Stable, so a state and its removal match up.
+ */
+export function awarenessClientID(connectionId: string): number {
+  let hash = 0x811c9dc5; // FNV-1a
+  for (let i = 0; i < connectionId.length; i++) {
+    hash ^= connectionId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,312 @@
+/**
+ * Server-Sent Events change feed for Durable Object storage
+ *
+ * Every feed event (document update, connection-count change, custom
+ * message) gets a sequence number and is stored under its own key, so a
+ * consumer can resume from the last id it saw:
+ *
+ *   feed-event:0000000001  -> FeedEvent
+ *   feed-event:0000000002  -> ...
+ *
+ * Only the newest `retention` events are kept. A consumer whose cursor is
+ * older than that gets a 'cursor-expired' event and should re-read the
+ * document (GET /export) before continuing.
+ *
+ * WRITES: open streams get every event right away, but document updates are
+ * only buffered - flush() writes them in one batch and the server calls it
+ * with the update log flush, so typing doesn't cost a storage write per
+ * keystroke. Other events (connection counts, custom messages, resets) are
+ * rare and written at once, together with whatever is buffered. Replays
+ * include buffered events, so a cursor never points past what a consumer
+ * can get back.
+ *
+ * IDS: ids are never reused, even if buffered events die with the instance.
+ * Before handing out ids, a high-water mark RESERVE_IDS ahead is written
+ *
+ *   feed-seq  -> highest id that may have been handed out
+ *
+ * and load() continues after it. A flush that leaves nothing buffered lowers
+ * the mark to the last written id (in the same put), so a room that goes to
+ * sleep normally resumes without a gap. After a crash the unwritten ids are
+ * a gap, and a consumer resuming from before or inside it gets
+ * 'cursor-expired' like any consumer that fell behind.
+ *
+ * HIBERNATION: an open HTTP response keeps a Durable Object awake - unlike a
+ * hibernatable WebSocket. So a stream only stays open while events keep
+ * coming: after `idleMs` without one it is closed, with an SSE `retry:` hint
+ * that makes EventSource come back later with Last-Event-ID. In between, an
+ * idle room is free to hibernate. Nothing is lost - the reconnect replays
+ * from storage.
+ */
+
+import * as buffer from 'lib0/buffer';
+import { Logger } from '../../shared/logger';
+
+const PUT_BATCH_SIZE = 128; // DO storage put() accepts at most 128 entries
+const DELETE_BATCH_SIZE = 128; // ...and delete() at most 128 keys
+
+// Prune old events whenever the sequence crosses a multiple of this
+const PRUNE_EVERY = 100;
+
+// Ids handed out per write of the high-water mark
+const RESERVE_IDS = 100;
+
+export type FeedEventType = 'update' | 'connection-count' | 'custom' | 'reset';
+
+export interface FeedEvent {
+  id: number;
+  type: FeedEventType;
+  data: unknown;
+  timestamp: string;
+}
+
+export interface ChangeFeedOptions {
+  prefix?: string;
+  seqKey?: string;
+  retention?: number;
+  idleMs?: number;
+  retryMs?: number;
+  // Updates above this size are recorded without their bytes (fetch /export instead)
+  maxInlineUpdateBytes?: number;
+  log?: Logger;
+}
+
+interface Subscriber {
+  writer: WritableStreamDefaultWriter<Uint8Array>;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  // Live events that arrive while stored events are still being replayed
+  backlog: FeedEvent[] | null;
+}
+
+const textEncoder = new TextEncoder();
+
+export class ChangeFeed {
+  private prefix: string;
+  private seqKey: string;
+  private retention: number;
+  private idleMs: number;
+  private retryMs: number;
+  private maxInlineUpdateBytes: number;
+  private log: Logger;
+
+  // Highest sequence number handed out so far (rebuilt from storage in load())
+  private seq = 0;
+  // Ids up to this can be handed out without writing the high-water mark first
+  private reserved = 0;
+  private subscribers = new Set<Subscriber>();
+  // Events not in storage yet: buffered ones, and the batch being written
+  private buffered: FeedEvent[] = [];
+  private writing: FeedEvent[] = [];
+
+  constructor(private storage: DurableObjectStorage, options: ChangeFeedOptions = {}) {
+    this.prefix = options.prefix ?? 'feed-event:';
+    this.seqKey = options.seqKey ?? 'feed-seq';
+    this.retention = options.retention ?? 1000;
+    this.idleMs = options.idleMs ?? 20_000;
+    this.retryMs = options.retryMs ?? 30_000;
+    this.maxInlineUpdateBytes = options.maxInlineUpdateBytes ?? 64 * 1024;
+    this.log = options.log ?? new Logger('info', { component: 'change-feed' });
+  }
+
+  get cursor() {
+    return this.seq;
+  }
+
+  get subscriberCount() {
+    return this.subscribers.size;
+  }
+
+  async load() {
+    const last = await this.storage.list({ prefix: this.prefix, reverse: true, limit: 1 });
+    const lastKey = Array.from(last.keys())[0];
+    const mark = (await this.storage.get<number>(this.seqKey)) ?? 0;
+    // Ids between the last stored event and the mark may have been seen - never reuse them
+    this.seq = Math.max(lastKey ? parseInt(lastKey.slice(this.prefix.length), 10) : 0, mark);
+    this.reserved = this.seq;
+  }
+
+  /**
+   * Publish an event and store it right away (with everything buffered).
+   * Synchronous on purpose: the id is assigned immediately.
+   */
+  record(type: FeedEventType, data: unknown) {
+    this.publish(type, data);
+    this.flush().catch(e => this.log.error('feed.store-failed', { error: e }));
+  }
+
+  /**
+   * Publish a document update, inlining the bytes (base64) if they are small
+   * enough. It is stored by the next flush().
+   */
+  recordUpdate(update: Uint8Array, origin: string, userId: string | null = null) {
+    const inline = update.length <= this.maxInlineUpdateBytes;
+    this.publish('update', {
+      origin,
+      userId,
+      size: update.length,
+      update: inline ? buffer.toBase64(update) : null
+    });
+  }
+
+  /**
+   * Write the buffered events. A failed batch stays buffered for the next
+   * flush and the error is rethrown.
+   */
+  async flush() {
+    if (this.buffered.length === 0) return;
+    const batch = this.buffered;
+    this.buffered = [];
+    this.writing.push(...batch);
+
+    try {
+      for (let i = 0; i < batch.length; i += PUT_BATCH_SIZE) {
+        const entries: [string, unknown][] = batch.slice(i, i + PUT_BATCH_SIZE).map(event => [this.key(event.id), event]);
+        // Nothing handed out after this batch - shrink the reservation back to it
+        if (i + PUT_BATCH_SIZE >= batch.length && batch[batch.length - 1].id === this.seq) {
+          this.reserved = this.seq;
+          entries.push([this.seqKey, this.seq]);
+        }
+        await this.storage.put(Object.fromEntries(entries));
+      }
+    } catch (e) {
+      this.buffered = [...batch, ...this.buffered];
+      throw e;
+    } finally {
+      this.writing = this.writing.filter(event => !batch.includes(event));
+    }
+
+    const first = batch[0].id;
+    const last = batch[batch.length - 1].id;
+    if (Math.floor(last / PRUNE_EVERY) > Math.floor((first - 1) / PRUNE_EVERY)) {
+      this.prune().catch(e => this.log.error('feed.prune-failed', { error: e }));
+    }
+  }
+
+  // Assign the next id, push to open streams and buffer for storage
+  private publish(type: FeedEventType, data: unknown) {
+    if (this.seq >= this.reserved) {
+      // The output gate holds the event back from consumers until this is stored
+      this.reserved = this.seq + RESERVE_IDS;
+      this.storage.put(this.seqKey, this.reserved).catch(e => this.log.error('feed.reserve-failed', { error: e }));
+    }
+    const event: FeedEvent = { id: ++this.seq, type, data, timestamp: new Date().toISOString() };
+    this.buffered.push(event);
+
+    for (const subscriber of this.subscribers) {
+      if (subscriber.backlog) {
+        subscriber.backlog.push(event);
+      } else {
+        this.send(subscriber, event);
+      }
+    }
+  }
+
+  /**
+   * Open an SSE stream that replays everything after `cursor` (null = only
+   * new events) and then follows live events until the feed goes idle.
+   */
+  subscribe(cursor: number | null): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const subscriber: Subscriber = { writer: writable.getWriter(), idleTimer: null, backlog: [] };
+    this.subscribers.add(subscriber);
+    this.log.info('feed.subscribed', { cursor, subscribers: this.subscribers.size });
+
+    this.write(subscriber, `retry: ${this.retryMs}\n: cursor ${this.seq}\n\n`);
+    this.replay(subscriber, cursor, this.seq).catch(e => {
+      this.log.error('feed.replay-failed', { cursor, error: e });
+      this.close(subscriber);
+    });
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache'
+      }
+    });
+  }
+
+  private async replay(subscriber: Subscriber, cursor: number | null, upTo: number) {
+    if (cursor !== null && cursor < upTo) {
+      const stored = await this.storage.list<FeedEvent>({
+        prefix: this.prefix,
+        start: this.key(cursor + 1),
+        end: this.key(upTo + 1)
+      });
+      // Plus what isn't in storage yet (an event being written may be in both)
+      const byId = new Map(Array.from(stored.values(), event => [event.id, event]));
+      for (const event of [...this.writing, ...this.buffered]) {
+        if (event.id > cursor && event.id <= upTo) byId.set(event.id, event);
+      }
+      const events = Array.from(byId.values()).sort((a, b) => a.id - b.id);
+
+      // Events between the cursor and the oldest stored one were pruned
+      const oldest = events[0]?.id ?? upTo + 1;
+      if (oldest > cursor + 1) {
+        this.write(subscriber, this.format('cursor-expired', oldest - 1, { cursor, oldest }));
+      }
+      for (const event of events) {
+        this.send(subscriber, event);
+      }
+    }
+
+    const backlog = subscriber.backlog ?? [];
+    subscriber.backlog = null;
+    for (const event of backlog) {
+      this.send(subscriber, event);
+    }
+    this.resetIdleTimer(subscriber);
+  }
+
+  private send(subscriber: Subscriber, event: FeedEvent) {
+    this.write(subscriber, this.format(event.type, event.id, event));
+    this.resetIdleTimer(subscriber);
+  }
+
+  private format(type: string, id: number, data: unknown): string {
+    return `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  }
+
+  private write(subscriber: Subscriber, chunk: string) {
+    subscriber.writer.write(textEncoder.encode(chunk)).catch(() => {
+      // Consumer went away
+      this.close(subscriber);
+    });
+  }
+
+  private resetIdleTimer(subscriber: Subscriber) {
+    if (subscriber.idleTimer) clearTimeout(subscriber.idleTimer);
+    // Only runs while a stream is open (which keeps the DO awake anyway)
+    subscriber.idleTimer = setTimeout(() => {
+      // The consumer will resume with Last-Event-ID
+      this.log.debug('feed.idle-close', { subscribers: this.subscribers.size - 1 });
+      this.close(subscriber);
+    }, this.idleMs);
+  }
+
+  private close(subscriber: Subscriber) {
+    if (!this.subscribers.delete(subscriber)) return;
+    if (subscriber.idleTimer) clearTimeout(subscriber.idleTimer);
+    subscriber.writer.close().catch(() => {});
+  }
+
+  /**
+   * Drop events that fell out of the retention window.
+   */
+  private async prune() {
+    const keepFrom = this.seq - this.retention + 1;
+    if (keepFrom <= 1) return;
+
+    const expired = await this.storage.list({ prefix: this.prefix, end: this.key(keepFrom) });
+    const keys = Array.from(expired.keys());
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      await this.storage.delete(keys.slice(i, i + DELETE_BATCH_SIZE));
+    }
+    if (keys.length > 0) {
+      this.log.debug('feed.pruned', { events: keys.length, keepFrom });
+    }
+  }
+
+  private key(id: number): string {
+    return this.prefix + String(id).padStart(10, '0');
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Server-side export of the Tiptap/ProseMirror document
+ *
+ * y-prosemirror stores the editor content in a Y.XmlFragment: one XmlElement
+ * per node (nodeName = node type, attributes = node attrs) and XmlText for
+ * text, with marks as formatting attributes (overlapping marks get a
+ * `--<hash>` suffix). We turn that into ProseMirror JSON first and render
+ * HTML and Markdown from the JSON, without pulling prosemirror or tiptap
+ * into the worker.
+ *
+ * Covers the StarterKit schema (paragraph, heading, lists, blockquote, code
+ * block, hard break, horizontal rule; bold, italic, strike, underline, code,
+ * link). Unknown nodes are rendered as their children so no text is lost.
+ * Links keep only http:, https: and mailto: targets; any other link (e.g.
+ * javascript:) is exported as its text.
+ */
+
+import * as Y from 'yjs';
+
+export interface ProseMirrorMark {
+  type: string;
+  attrs?: Record<string, any>;
+}
+
+export interface ProseMirrorNode {
+  type: string;
+  attrs?: Record<string, any>;
+  content?: ProseMirrorNode[];
+  text?: string;
+  marks?: ProseMirrorMark[];
+}
+
+export type ExportFormat = 'json' | 'html' | 'markdown' | 'update';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'html', 'markdown', 'update'];
+
+// Overlapping marks are stored as `<name>--<8 char hash>`
+const HASHED_MARK_NAME = /(.*)(--[a-zA-Z0-9+/=]{8})$/;
+
+const SAFE_LINK_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+// Normalized link target, or null if it isn't an absolute http(s)/mailto URL
+function safeHref(href: unknown): string | null {
+  try {
+    const url = new URL(String(href ?? ''));
+    return SAFE_LINK_PROTOCOLS.has(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Y.XmlFragment → ProseMirror JSON ───────────────────────────────────────
+
+function textToNodes(text: Y.XmlText): ProseMirrorNode[] {
+  const nodes: ProseMirrorNode[] = [];
+  for (const op of text.toDelta() as Array<{ insert: unknown; attributes?: Record<string, any> }>) {
+    if (typeof op.insert !== 'string') continue; // Embeds have no ProseMirror equivalent
+    const node: ProseMirrorNode = { type: 'text', text: op.insert };
+    if (op.attributes) {
+      const marks = Object.entries(op.attributes)
+        .filter(([name]) => name !== 'ychange')
+        .map(([name, attrs]) => {
+          const mark: ProseMirrorMark = { type: HASHED_MARK_NAME.exec(name)?.[1] ?? name };
+          if (attrs && typeof attrs === 'object' && Object.keys(attrs).length > 0) mark.attrs = attrs;
+          return mark;
+        });
+      if (marks.length > 0) node.marks = marks;
+    }
+    nodes.push(node);
+  }
+  return nodes;
+}
+
+function childrenToNodes(parent: Y.XmlFragment | Y.XmlElement): ProseMirrorNode[] {
+  const nodes: ProseMirrorNode[] = [];
+  for (const child of parent.toArray()) {
+    if (child instanceof Y.XmlText) {
+      nodes.push(...textToNodes(child));
+    } else if (child instanceof Y.XmlElement) {
+      const node: ProseMirrorNode = { type: child.nodeName };
+      const attrs = child.getAttributes();
+      if (Object.keys(attrs).length > 0) node.attrs = attrs;
+      const content = childrenToNodes(child);
+      if (content.length > 0) node.content = content;
+      nodes.push(node);
+    }
+  }
+  return nodes;
+}
+
+export function fragmentToJSON(fragment: Y.XmlFragment): ProseMirrorNode {
+  return { type: 'doc', content: childrenToNodes(fragment) };
+}
+
+// ─── ProseMirror JSON → HTML ────────────────────────────────────────────────
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function markToHtml(mark: ProseMirrorMark, inner: string): string {
+  switch (mark.type) {
+    case 'bold': return `<strong>${inner}</strong>`;
+    case 'italic': return `<em>${inner}</em>`;
+    case 'strike': return `<s>${inner}</s>`;
+    case 'underline': return `<u>${inner}</u>`;
+    case 'code': return `<code>${inner}</code>`;
+    case 'link': {
+      const href = safeHref(mark.attrs?.href);
+      return href === null ? inner : `<a href="${escapeHtml(href)}">${inner}</a>`;
+    }
+    default: return inner;
+  }
+}
+
+function nodeToHtml(node: ProseMirrorNode): string {
+  if (node.type === 'text') {
+    return (node.marks ?? []).reduceRight((inner, mark) => markToHtml(mark, inner), escapeHtml(node.text ?? ''));
+  }
+
+  const inner = (node.content ?? []).map(nodeToHtml).join('');
+  switch (node.type) {
+    case 'doc': return inner;
+    case 'paragraph': return `<p>${inner}</p>`;
+    case 'heading': {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      return `<h${level}>${inner}</h${level}>`;
+    }
+    case 'blockquote': return `<blockquote>${inner}</blockquote>`;
+    case 'bulletList': return `<ul>${inner}</ul>`;
+    case 'orderedList': {
+      const start = Number(node.attrs?.start) || 1;
+      return start === 1 ? `<ol>${inner}</ol>` : `<ol start="${start}">${inner}</ol>`;
+    }
+    case 'listItem': return `<li>${inner}</li>`;
+    case 'codeBlock': {
+      const language = node.attrs?.language ? ` class="language-${escapeHtml(String(node.attrs.language))}"` : '';
+      return `<pre><code${language}>${inner}</code></pre>`;
+    }
+    case 'hardBreak': return '<br>';
+    case 'horizontalRule': return '<hr>';
+    default: return inner;
+  }
+}
+
+export function toHTML(doc: ProseMirrorNode): string {
+  return nodeToHtml(doc);
+}
+
+// ─── ProseMirror JSON → Markdown ────────────────────────────────────────────
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_~[\]#<>])/g, '\\$1');
+}
+
+function inlineToMarkdown(nodes: ProseMirrorNode[]): string {
+  return nodes.map(node => {
+    if (node.type === 'hardBreak') return '\\\n';
+    if (node.type !== 'text') return inlineToMarkdown(node.content ?? []);
+
+    const marks = node.marks ?? [];
+    // Code spans can't contain other formatting
+    if (marks.some(mark => mark.type === 'code')) return '`' + (node.text ?? '') + '`';
+
+    let text = escapeMarkdown(node.text ?? '');
+    for (const mark of marks) {
+      if (mark.type === 'bold') text = `**${text}**`;
+      else if (mark.type === 'italic') text = `*${text}*`;
+      else if (mark.type === 'strike') text = `~~${text}~~`;
+      else if (mark.type === 'link') {
+        const href = safeHref(mark.attrs?.href);
+        if (href !== null) text = `[${text}](${href})`;
+      }
+    }
+    return text;
+  }).join('');
+}
+
+function indent(text: string, prefix: string, firstPrefix = prefix): string {
+  return text.split('\n').map((line, i) => (line ? (i === 0 ? firstPrefix : prefix) + line : line)).join('\n');
+}
+
+function blocksToMarkdown(nodes: ProseMirrorNode[]): string {
+  return nodes.map(blockToMarkdown).filter(block => block !== null).join('\n\n');
+}
+
+function blockToMarkdown(node: ProseMirrorNode): string | null {
+  const content = node.content ?? [];
+  switch (node.type) {
+    case 'paragraph': return inlineToMarkdown(content);
+    case 'heading': {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      return '#'.repeat(level) + ' ' + inlineToMarkdown(content);
+    }
+    case 'blockquote': return indent(blocksToMarkdown(content), '> ').replace(/^$/gm, '>');
+    case 'bulletList':
+      return content.map(item => indent(blocksToMarkdown(item.content ?? []), '  ', '- ')).join('\n');
+    case 'orderedList': {
+      const start = Number(node.attrs?.start) || 1;
+      return content.map((item, i) => {
+        const marker = `${start + i}. `;
+        return indent(blocksToMarkdown(item.content ?? []), ' '.repeat(marker.length), marker);
+      }).join('\n');
+    }
+    case 'codeBlock': {
+      const code = content.map(child => child.text ?? '').join('');
+      return '```' + (node.attrs?.language ?? '') + '\n' + code + '\n```';
+    }
+    case 'horizontalRule': return '---';
+    case 'text':
+    case 'hardBreak': return inlineToMarkdown([node]);
+    default: return content.length > 0 ? blocksToMarkdown(content) : null;
+  }
+}
+
+export function toMarkdown(doc: ProseMirrorNode): string {
+  const markdown = blocksToMarkdown(doc.content ?? []);
+  return markdown ? markdown + '\n' : '';
+}
@@ -0,0 +1,538 @@
+/**
+ * Server-side import into the Tiptap/ProseMirror document
+ *
+ * The counterpart of document-export.ts: HTML and Markdown are parsed into
+ * ProseMirror JSON (StarterKit schema) and written into the prosemirror
+ * XmlFragment the way y-prosemirror would write them. Nothing is applied to
+ * the live document here - buildImportUpdate() makes the change on a scratch
+ * copy and returns it as a regular Yjs update, which the server applies,
+ * persists and broadcasts like any other edit.
+ *
+ * Modes:
+ *   merge   - append the imported content after the existing content
+ *   replace - delete the existing content first
+ *
+ * Binary Yjs updates are merged as-is (that is what Yjs merging means). For
+ * replace they are rendered to JSON and re-inserted as new content: applying
+ * a backup of the same room on top of a delete would leave it deleted.
+ */
+
+import * as Y from 'yjs';
+import { fragmentToJSON, type ProseMirrorMark, type ProseMirrorNode } from './document-export';
+
+export type ImportFormat = 'update' | 'html' | 'markdown';
+export type ImportMode = 'merge' | 'replace';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['update', 'html', 'markdown'];
+export const IMPORT_MODES: ImportMode[] = ['merge', 'replace'];
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function text(value: string, marks: ProseMirrorMark[]): ProseMirrorNode {
+  return marks.length > 0 ? { type: 'text', text: value, marks } : { type: 'text', text: value };
+}
+
+function paragraph(content: ProseMirrorNode[]): ProseMirrorNode {
+  return content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' };
+}
+
+function sameMarks(a: ProseMirrorMark[] = [], b: ProseMirrorMark[] = []): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Join adjacent text nodes with identical marks, drop empty ones */
+function normalizeInline(nodes: ProseMirrorNode[]): ProseMirrorNode[] {
+  const result: ProseMirrorNode[] = [];
+  for (const node of nodes) {
+    if (node.type === 'text' && !node.text) continue;
+    const last = result[result.length - 1];
+    if (node.type === 'text' && last?.type === 'text' && sameMarks(last.marks, node.marks)) {
+      result[result.length - 1] = { ...last, text: last.text! + node.text };
+    } else {
+      result.push(node);
+    }
+  }
+  return result;
+}
+
+/** Trim whitespace at the edges of a paragraph's inline content */
+function trimInline(nodes: ProseMirrorNode[]): ProseMirrorNode[] {
+  const result = normalizeInline(nodes);
+  const first = result[0];
+  if (first?.type === 'text') result[0] = { ...first, text: first.text!.replace(/^\s+/, '') };
+  const last = result[result.length - 1];
+  if (last?.type === 'text') result[result.length - 1] = { ...last, text: last.text!.replace(/\s+$/, '') };
+  return normalizeInline(result);
+}
+
+// ─── Markdown → ProseMirror JSON ────────────────────────────────────────────
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING = /^\s*(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+// Inline syntax, matched in place (sticky) - slicing the rest of the line per character is quadratic
+const INLINE_ESCAPE = /\\([\\`*_~[\]#<>()!+.-])/y;
+const INLINE_CODE = /(`+)([\s\S]*?[^`])\1(?!`)/y;
+const INLINE_LINK = /\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+"[^"]*")?\s*\)/y;
+const INLINE_STRONG = /(\*\*|__)(?=\S)([\s\S]*?\S)\1/y;
+const INLINE_STRIKE = /(~~)(?=\S)([\s\S]*?\S)\1/y;
+const INLINE_EMPHASIS = /([*_])(?=\S)([\s\S]*?\S)\1(?!\1)/y;
+// Text up to the next character that may start inline syntax
+const INLINE_PLAIN = /[^\\`[*_~]+/y;
+
+function matchAt(pattern: RegExp, source: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(source);
+}
+
+function parseInline(source: string, marks: ProseMirrorMark[] = []): ProseMirrorNode[] {
+  const nodes: ProseMirrorNode[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) nodes.push(text(plain, marks));
+    plain = '';
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const run = matchAt(INLINE_PLAIN, source, i);
+    if (run) {
+      plain += run[0];
+      i += run[0].length;
+      continue;
+    }
+
+    const escape = matchAt(INLINE_ESCAPE, source, i);
+    if (escape) {
+      plain += escape[1];
+      i += 2;
+      continue;
+    }
+
+    const code = matchAt(INLINE_CODE, source, i);
+    if (code) {
+      flush();
+      nodes.push(text(code[2].trim() || code[2], [...marks, { type: 'code' }]));
+      i += code[0].length;
+      continue;
+    }
+
+    const link = matchAt(INLINE_LINK, source, i);
+    if (link) {
+      flush();
+      nodes.push(...parseInline(link[1], [...marks, { type: 'link', attrs: { href: link[2] } }]));
+      i += link[0].length;
+      continue;
+    }
+
+    const emphasis =
+      matchAt(INLINE_STRONG, source, i) ??
+      matchAt(INLINE_STRIKE, source, i) ??
+      matchAt(INLINE_EMPHASIS, source, i);
+    if (emphasis) {
+      const type = emphasis[1] === '~~' ? 'strike' : emphasis[1].length === 2 ? 'bold' : 'italic';
+      flush();
+      nodes.push(...parseInline(emphasis[2], [...marks, { type }]));
+      i += emphasis[0].length;
+      continue;
+    }
+
+    plain += source[i];
+    i++;
+  }
+  flush();
+  return nodes;
+}
+
+/** Paragraph lines -> inline content; a trailing backslash or two spaces is a hard break */
+function parseParagraph(lines: string[]): ProseMirrorNode {
+  const content: ProseMirrorNode[] = [];
+  lines.forEach((line, index) => {
+    const isLast = index === lines.length - 1;
+    const hardBreak = !isLast && /(\\| {2,})$/.test(line);
+    content.push(...parseInline(line.replace(/(\\| {2,})$/, '').trim()));
+    if (hardBreak) content.push({ type: 'hardBreak' });
+    else if (!isLast) content.push(text(' ', []));
+  });
+  return paragraph(normalizeInline(content));
+}
+
+function isBlockStart(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+function parseMarkdownBlocks(lines: string[]): ProseMirrorNode[] {
+  const blocks: ProseMirrorNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      blocks.push({
+        type: 'codeBlock',
+        attrs: { language: fence[2] || null },
+        ...(code.length > 0 ? { content: [text(code.join('\n'), [])] } : {})
+      });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const content = normalizeInline(parseInline(heading[2]));
+      blocks.push({ type: 'heading', attrs: { level: heading[1].length }, ...(content.length > 0 ? { content } : {}) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'horizontalRule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      const content = parseMarkdownBlocks(quoted);
+      blocks.push({ type: 'blockquote', content: content.length > 0 ? content : [paragraph([])] });
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[2]);
+      const baseIndent = listItem[1].length;
+      const items: ProseMirrorNode[] = [];
+
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (!item || item[1].length !== baseIndent || /\d/.test(item[2]) !== ordered) break;
+
+        // Continuation lines are indented past the marker (blank lines allowed in between)
+        const contentIndent = item[1].length + item[2].length + 1;
+        const itemLines = [item[3]];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (next.trim() && next.search(/\S/) >= contentIndent) {
+            itemLines.push(next.slice(contentIndent));
+          } else if (!next.trim() && i + 1 < lines.length && lines[i + 1].search(/\S/) >= contentIndent) {
+            itemLines.push('');
+          } else if (next.trim() && !isBlockStart(next) && itemLines[itemLines.length - 1].trim()) {
+            itemLines.push(next.trim()); // Lazy paragraph continuation
+          } else {
+            break;
+          }
+          i++;
+        }
+
+        const content = parseMarkdownBlocks(itemLines);
+        items.push({ type: 'listItem', content: content.length > 0 ? content : [paragraph([])] });
+      }
+
+      const start = ordered ? parseInt(listItem[2], 10) : 1;
+      blocks.push(ordered
+        ? { type: 'orderedList', attrs: { start }, content: items }
+        : { type: 'bulletList', content: items });
+      continue;
+    }
+
+    const paragraphLines: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraphLines.length === 0 || !isBlockStart(lines[i]))) {
+      paragraphLines.push(lines[i]);
+      i++;
+    }
+    blocks.push(parseParagraph(paragraphLines));
+  }
+
+  return blocks;
+}
+
+export function markdownToJSON(markdown: string): ProseMirrorNode {
+  return { type: 'doc', content: parseMarkdownBlocks(markdown.replace(/\r\n?/g, '\n').split('\n')) };
+}
+
+// ─── HTML → ProseMirror JSON ────────────────────────────────────────────────
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const IGNORED_TAGS = new Set(['head', 'script', 'style', 'template', 'title', 'noscript']);
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+/** Forgiving tokenizer + tree builder - unclosed tags are closed by their parent */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const token = /<!--[\s\S]*?-->|<!\w[^>]*>|<\/([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)([^>]*?)(\/?)>|[^<]+|</g;
+
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(html))) {
+    const [whole, closeTag, openTag, attrSource, selfClosing] = match;
+    const current = stack[stack.length - 1];
+
+    if (closeTag) {
+      const tag = closeTag.toLowerCase();
+      const index = stack.map(el => el.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+    } else if (openTag) {
+      const tag = openTag.toLowerCase();
+      const element: HtmlElement = { tag, attrs: parseAttributes(attrSource), children: [] };
+      current.children.push(element);
+      if (!selfClosing && !VOID_TAGS.has(tag)) {
+        if (IGNORED_TAGS.has(tag)) {
+          // Skip raw content up to the closing tag
+          const end = html.toLowerCase().indexOf(`</${tag}`, token.lastIndex);
+          token.lastIndex = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+        } else {
+          stack.push(element);
+        }
+      }
+    } else if (!whole.startsWith('<!')) {
+      current.children.push(decodeEntities(whole));
+    }
+  }
+
+  return root;
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === 'string') return node;
+  if (node.tag === 'br') return '\n';
+  return node.children.map(textContent).join('');
+}
+
+const INLINE_MARKS: Record<string, string> = {
+  strong: 'bold', b: 'bold',
+  em: 'italic', i: 'italic',
+  s: 'strike', del: 'strike', strike: 'strike',
+  u: 'underline',
+  code: 'code'
+};
+
+const BLOCK_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'hr',
+  'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'body', 'html', 'figure', 'table', 'tbody', 'thead', 'tr', 'td', 'th'
+]);
+
+function htmlInline(nodes: HtmlNode[], marks: ProseMirrorMark[]): ProseMirrorNode[] {
+  const result: ProseMirrorNode[] = [];
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      result.push(text(node.replace(/\s+/g, ' '), marks));
+    } else if (node.tag === 'br') {
+      result.push({ type: 'hardBreak' });
+    } else if (node.tag === 'a' && node.attrs.href) {
+      result.push(...htmlInline(node.children, [...marks, { type: 'link', attrs: { href: node.attrs.href } }]));
+    } else if (INLINE_MARKS[node.tag]) {
+      const type = INLINE_MARKS[node.tag];
+      const nextMarks = marks.some(mark => mark.type === type) ? marks : [...marks, { type }];
+      result.push(...htmlInline(node.children, nextMarks));
+    } else {
+      result.push(...htmlInline(node.children, marks));
+    }
+  }
+  return result;
+}
+
+function htmlBlocks(nodes: HtmlNode[]): ProseMirrorNode[] {
+  const blocks: ProseMirrorNode[] = [];
+  let pending: HtmlNode[] = [];
+
+  // Loose inline content between blocks becomes its own paragraph
+  const flush = () => {
+    const content = trimInline(htmlInline(pending, []));
+    if (content.length > 0) blocks.push(paragraph(content));
+    pending = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node === 'string' || !BLOCK_TAGS.has(node.tag)) {
+      pending.push(node);
+      continue;
+    }
+    flush();
+
+    switch (node.tag) {
+      case 'p':
+        blocks.push(paragraph(trimInline(htmlInline(node.children, []))));
+        break;
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+        const content = trimInline(htmlInline(node.children, []));
+        blocks.push({ type: 'heading', attrs: { level: Number(node.tag[1]) }, ...(content.length > 0 ? { content } : {}) });
+        break;
+      }
+      case 'ul':
+      case 'ol': {
+        const items = node.children
+          .filter((child): child is HtmlElement => typeof child !== 'string' && child.tag === 'li')
+          .map(item => {
+            const content = htmlBlocks(item.children);
+            return { type: 'listItem', content: content.length > 0 ? content : [paragraph([])] };
+          });
+        if (items.length === 0) break;
+        if (node.tag === 'ol') {
+          blocks.push({ type: 'orderedList', attrs: { start: parseInt(node.attrs.start, 10) || 1 }, content: items });
+        } else {
+          blocks.push({ type: 'bulletList', content: items });
+        }
+        break;
+      }
+      case 'blockquote': {
+        const content = htmlBlocks(node.children);
+        blocks.push({ type: 'blockquote', content: content.length > 0 ? content : [paragraph([])] });
+        break;
+      }
+      case 'pre': {
+        const code = node.children.find((child): child is HtmlElement => typeof child !== 'string' && child.tag === 'code');
+        const language = /language-([\w+-]+)/.exec(code?.attrs.class ?? '')?.[1] ?? null;
+        const value = textContent(node).replace(/^\n/, '').replace(/\n$/, '');
+        blocks.push({ type: 'codeBlock', attrs: { language }, ...(value ? { content: [text(value, [])] } : {}) });
+        break;
+      }
+      case 'hr':
+        blocks.push({ type: 'horizontalRule' });
+        break;
+      default:
+        // Generic containers (div, section, li, td, ...) contribute their children
+        blocks.push(...htmlBlocks(node.children));
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+export function htmlToJSON(html: string): ProseMirrorNode {
+  return { type: 'doc', content: htmlBlocks(parseHtml(html).children) };
+}
+
+// ─── ProseMirror JSON → Y.XmlFragment ───────────────────────────────────────
+
+function marksToAttributes(marks: ProseMirrorMark[] = []): Record<string, any> {
+  const attributes: Record<string, any> = {};
+  for (const mark of marks) {
+    attributes[mark.type] = mark.attrs ?? {};
+  }
+  return attributes;
+}
+
+function toYXml(nodes: ProseMirrorNode[]): Array<Y.XmlElement | Y.XmlText> {
+  const result: Array<Y.XmlElement | Y.XmlText> = [];
+  let currentText: Y.XmlText | null = null;
+  let textLength = 0;
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      // Consecutive text nodes share one XmlText, marks become formatting attributes
+      if (!currentText) {
+        currentText = new Y.XmlText();
+        textLength = 0;
+        result.push(currentText);
+      }
+      // Always pass attributes so unmarked text doesn't inherit the previous run's marks
+      currentText.insert(textLength, node.text ?? '', marksToAttributes(node.marks));
+      textLength += (node.text ?? '').length;
+      continue;
+    }
+
+    currentText = null;
+    const element = new Y.XmlElement(node.type);
+    for (const [key, value] of Object.entries(node.attrs ?? {})) {
+      if (value !== null && value !== undefined) element.setAttribute(key, value);
+    }
+    element.insert(0, toYXml(node.content ?? []));
+    result.push(element);
+  }
+
+  return result;
+}
+
+/** Render a binary update's prosemirror fragment to JSON. Throws ImportError if it isn't a valid update. */
+export function updateToJSON(update: Uint8Array, fragmentName: string): ProseMirrorNode {
+  const scratch = new Y.Doc({ gc: false });
+  try {
+    Y.applyUpdate(scratch, update);
+    return fragmentToJSON(scratch.getXmlFragment(fragmentName));
+  } catch (e) {
+    throw new ImportError(`Invalid Yjs update: ${e instanceof Error ? e.message : e}`);
+  } finally {
+    scratch.destroy();
+  }
+}
+
+/**
+ * Compute the update that imports `content` into `doc`'s fragment, without
+ * touching `doc` itself.
+ */
+export function buildImportUpdate(doc: Y.Doc, fragmentName: string, content: ProseMirrorNode, mode: ImportMode): Uint8Array {
+  const scratch = new Y.Doc({ gc: false });
+  Y.applyUpdate(scratch, Y.encodeStateAsUpdate(doc));
+  const before = Y.encodeStateVector(scratch);
+
+  scratch.transact(() => {
+    const fragment = scratch.getXmlFragment(fragmentName);
+    if (mode === 'replace' && fragment.length > 0) {
+      fragment.delete(0, fragment.length);
+    }
+    fragment.insert(fragment.length, toYXml(content.content ?? []));
+  });
+
+  const update = Y.encodeStateAsUpdate(scratch, before);
+  scratch.destroy();
+  return update;
+}
@@ -0,0 +1,338 @@
+/**
+ * Edit attribution for Durable Object storage - who wrote which part of the doc
+ *
+ * Every Yjs item has an id (client id + clock), and ids never change: not
+ * when the update log is compacted into a snapshot, not when tombstones are
+ * dropped. So instead of tagging stored updates (which get merged and
+ * compacted away) we record, per Yjs client id, which clock ranges were
+ * written by whom and when:
+ *
+ *   attribution:author:<index>  -> AttributionAuthor
+ *   attribution:client:<id>     -> Run[] ([clock, length, author index, at])
+ *
+ * Authors are only ever appended and get a key each, so no value grows
+ * towards the 128 KiB limit with the number of authors; runs are capped per
+ * client (see below).
+ *
+ * Runs are sorted by clock. Items don't arrive in clock order (an offline
+ * client reconnecting, a relayed sync step 2), so a new range fills whatever
+ * gaps it covers, wherever they are. Adjacent ranges of the same author are
+ * merged into one run while they are less than RUN_MERGE_WINDOW_MS apart; a
+ * client with too many runs is coarsened to one run per author stretch
+ * (keeping the earliest time).
+ *
+ * The first server-side writer of a range wins: a sync step 2 that relays
+ * items of another client credits the connection that sent it, unless those
+ * items were recorded before. Deletions aren't attributed.
+ *
+ * record() only touches memory; flush() writes what changed and is called
+ * with the update log flush, so attribution reaches storage with the edits.
+ */
+
+import * as Y from 'yjs';
+import { Logger } from '../../shared/logger';
+import type { AttributionAuthor, Blame, BlameRange } from '../../shared/edit-attribution';
+
+const PUT_BATCH_SIZE = 128; // DO storage put() accepts at most 128 entries
+const DELETE_BATCH_SIZE = 128; // ...and delete() at most 128 keys
+
+// Edits of one author closer together than this share a run (and a time)
+const RUN_MERGE_WINDOW_MS = 60_000;
+
+// StarterKit nodes without content - size 1 in ProseMirror instead of 2
+const LEAF_NODES = new Set(['hardBreak', 'horizontalRule']);
+
+type Run = [clock: number, length: number, author: number, at: number];
+
+export interface EditAttributionOptions {
+  prefix?: string;
+  maxRunsPerClient?: number;
+  log?: Logger;
+}
+
+export class EditAttribution {
+  private prefix: string;
+  private maxRunsPerClient: number;
+  private log: Logger;
+
+  private authors: AttributionAuthor[] = [];
+  private authorIndexes = new Map<string, number>();
+  private storedAuthors = 0;  // authors[storedAuthors..] aren't written yet
+  private runs = new Map<number, Run[]>();
+  private dirtyClients = new Set<number>();
+
+  constructor(private storage: DurableObjectStorage, options: EditAttributionOptions = {}) {
+    this.prefix = options.prefix ?? 'attribution:';
+    this.maxRunsPerClient = options.maxRunsPerClient ?? 1000;
+    this.log = options.log ?? new Logger('info', { component: 'attribution' });
+  }
+
+  private get authorPrefix() {
+    return `${this.prefix}author:`;
+  }
+
+  private get clientPrefix() {
+    return `${this.prefix}client:`;
+  }
+
+  async load() {
+    this.authors = [];
+    const authors = await this.storage.list<AttributionAuthor>({ prefix: this.authorPrefix });
+    for (const [key, author] of authors) {
+      this.authors[Number(key.slice(this.authorPrefix.length))] = author;
+    }
+    this.storedAuthors = this.authors.length;
+    this.authorIndexes = new Map(this.authors.map((author, i) => [authorKey(author), i]));
+    this.runs.clear();
+    const stored = await this.storage.list<Run[]>({ prefix: this.clientPrefix });
+    for (const [key, runs] of stored) {
+      this.runs.set(Number(key.slice(this.clientPrefix.length)), runs);
+    }
+  }
+
+  /**
+   * Credit the items of `update` that aren't attributed yet to `author`.
+   * Call it for updates that were applied to the document.
+   */
+  record(update: Uint8Array, author: AttributionAuthor, at = Date.now()) {
+    let index: number | null = null;
+    for (const struct of Y.decodeUpdate(update).structs) {
+      if (!(struct instanceof Y.Item)) continue; // GC (deleted content) and Skip
+
+      const { client, clock } = struct.id;
+      const end = clock + struct.length;
+      const runs = this.runs.get(client) ?? [];
+      let changed = false;
+
+      // Walk the runs overlapping [clock, end), filling the gaps between them
+      let i = firstRunEndingAfter(runs, clock);
+      let from = clock;
+      while (from < end) {
+        const run = runs[i];
+        if (run && run[0] <= from) {
+          from = run[0] + run[1];
+          i++;
+          continue;
+        }
+        const to = run ? Math.min(end, run[0]) : end;
+        index ??= this.authorIndex(author);
+        i = insertRun(runs, i, [from, to - from, index, at]);  // Next turn skips past it
+        changed = true;
+      }
+      if (!changed) continue;
+
+      this.runs.set(client, runs.length > this.maxRunsPerClient ? this.coarsen(client, runs) : runs);
+      this.dirtyClients.add(client);
+    }
+  }
+
+  /** Write what changed since the last flush */
+  async flush() {
+    if (this.storedAuthors === this.authors.length && this.dirtyClients.size === 0) return;
+
+    const clients = Array.from(this.dirtyClients);
+    const firstAuthor = this.storedAuthors;
+    this.dirtyClients.clear();
+    this.storedAuthors = this.authors.length;
+
+    // Authors first: runs must never point at an author that isn't stored
+    const entries: [string, unknown][] = this.authors
+      .slice(firstAuthor)
+      .map((author, i) => [this.authorPrefix + (firstAuthor + i), author]);
+    entries.push(...clients.map((client): [string, unknown] => [this.clientPrefix + client, this.runs.get(client)]));
+    try {
+      for (let i = 0; i < entries.length; i += PUT_BATCH_SIZE) {
+        await this.storage.put(Object.fromEntries(entries.slice(i, i + PUT_BATCH_SIZE)));
+      }
+    } catch (e) {
+      // Keep it dirty for the next flush
+      clients.forEach(client => this.dirtyClients.add(client));
+      this.storedAuthors = Math.min(this.storedAuthors, firstAuthor);
+      throw e;
+    }
+  }
+
+  /** Forget everything (the document was reset) */
+  async clear() {
+    this.authors = [];
+    this.authorIndexes.clear();
+    this.storedAuthors = 0;
+    this.runs.clear();
+    this.dirtyClients.clear();
+
+    const keys = Array.from((await this.storage.list({ prefix: this.prefix })).keys());
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      await this.storage.delete(keys.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+
+  /**
+   * Map the visible content of a y-prosemirror fragment to authors, using
+   * the same positions as the ProseMirror document.
+   */
+  blame(fragment: Y.XmlFragment): Blame {
+    const ranges: BlameRange[] = [];
+    const latest: (number | null)[] = [];
+    let pos = 0;
+
+    const push = (from: number, to: number, text: string, author: number | null, at: number | null) => {
+      const previous = ranges[ranges.length - 1];
+      if (previous && previous.to === from && previous.author === author) {
+        previous.to = to;
+        previous.text += text;
+        const i = ranges.length - 1;
+        latest[i] = at === null ? latest[i] : Math.max(latest[i] ?? at, at);
+        return;
+      }
+      ranges.push({ from, to, text, author, at: null });
+      latest.push(at);
+    };
+
+    // Split an item of `length` clocks at run boundaries
+    const attribute = (item: Y.Item, length: number, text: string | null) => {
+      const { client, clock: first } = item.id;
+      let clock = first;
+      while (clock < first + length) {
+        const { author, at, until } = this.lookup(client, clock, first + length);
+        push(pos + clock - first, pos + until - first, text?.slice(clock - first, until - first) ?? '', author, at);
+        clock = until;
+      }
+      pos += length;
+    };
+
+    const walk = (type: Y.AbstractType<any>) => {
+      for (let item = type._start; item; item = item.right) {
+        if (item.deleted || !item.countable) continue;
+        const content = item.content;
+        if (content instanceof Y.ContentString) {
+          attribute(item, item.length, content.str);
+        } else if (content instanceof Y.ContentType) {
+          const child = content.type;
+          if (child instanceof Y.XmlText) {
+            walk(child);
+          } else if (child instanceof Y.XmlElement) {
+            if (LEAF_NODES.has(child.nodeName)) {
+              attribute(item, 1, null);
+            } else {
+              pos++;  // Opening token
+              walk(child);
+              pos++;  // Closing token
+            }
+          }
+        }
+        // Embeds and other content have no ProseMirror equivalent (see document-export.ts)
+      }
+    };
+
+    walk(fragment);
+    ranges.forEach((range, i) => {
+      const at = latest[i];
+      range.at = at === null ? null : new Date(at).toISOString();
+    });
+
+    return { authors: this.authors, ranges, timestamp: new Date().toISOString() };
+  }
+
+  /**
+   * Attribution at `clock` of `client`, and the first clock (at most `end`)
+   * from which it may differ.
+   */
+  private lookup(client: number, clock: number, end: number): { author: number | null; at: number | null; until: number } {
+    const runs = this.runs.get(client) ?? [];
+
+    // Last run starting at or before clock
+    let low = 0;
+    let high = runs.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (runs[mid][0] <= clock) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    const run = runs[found];
+    if (run && clock < run[0] + run[1]) {
+      return { author: run[2], at: run[3], until: Math.min(end, run[0] + run[1]) };
+    }
+    const next = runs[found + 1];
+    return { author: null, at: null, until: next ? Math.min(end, next[0]) : end };
+  }
+
+  private authorIndex(author: AttributionAuthor): number {
+    const key = authorKey(author);
+    let index = this.authorIndexes.get(key);
+    if (index === undefined) {
+      index = this.authors.push(author) - 1;
+      this.authorIndexes.set(key, index);
+    }
+    return index;
+  }
+
+  // Merge adjacent runs of the same author regardless of time
+  private coarsen(client: number, runs: Run[]): Run[] {
+    const coarse: Run[] = [];
+    for (const run of runs) {
+      const last = coarse[coarse.length - 1];
+      if (last && last[0] + last[1] === run[0] && last[2] === run[2]) {
+        last[1] += run[1];
+        last[3] = Math.min(last[3], run[3]);
+      } else {
+        coarse.push([...run]);
+      }
+    }
+    this.log.info('attribution.coarsened', { client, runs: runs.length, coarse: coarse.length });
+    return coarse;
+  }
+}
+
+// Index of the first run that ends after `clock` (runs.length if none)
+function firstRunEndingAfter(runs: Run[], clock: number): number {
+  let low = 0;
+  let high = runs.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (runs[mid][0] + runs[mid][1] <= clock) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// `b` directly follows `a`, by the same author and within the merge window
+function continues(a: Run, b: Run): boolean {
+  return a[0] + a[1] === b[0] && a[2] === b[2] && Math.abs(b[3] - a[3]) < RUN_MERGE_WINDOW_MS;
+}
+
+/**
+ * Insert `run` before runs[i] (it must fit in the gap there), merged into the
+ * runs around it where it continues them. Returns the index of the run that
+ * now holds it.
+ */
+function insertRun(runs: Run[], i: number, run: Run): number {
+  const previous = runs[i - 1];
+  if (previous && continues(previous, run)) {
+    previous[1] += run[1];
+    previous[3] = Math.min(previous[3], run[3]);
+    run = previous;
+    i--;
+  } else {
+    runs.splice(i, 0, run);
+  }
+  const next = runs[i + 1];
+  if (next && continues(run, next)) {
+    run[1] += next[1];
+    run[3] = Math.min(run[3], next[3]);
+    runs.splice(i + 1, 1);
+  }
+  return i;
+}
+
+function authorKey(author: AttributionAuthor): string {
+  return JSON.stringify([author.userId, author.name, author.color, author.origin]);
+}
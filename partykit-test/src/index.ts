@@ -1,25 +1,49 @@
 /**
  * Worker entry point for PartyServer test
  * Uses routePartykitRequest for PartyKit-style routing
+ *
+ * GET /rooms (the RoomRegistry operator view) needs an admin token, like the
+ * rooms' own admin endpoints - unless AUTH_SECRET is unset.
  */
 
 import { routePartykitRequest } from "partyserver";
 import { PartyKitTestServer } from './server';
-import { YjsPartyServer } from './yjs-server';
+import { YjsPartyServer, type YjsPartyEnv } from './yjs-server';
+import { RoomRegistry } from './room-registry';
+import { ROOM_REGISTRY_NAME } from '../../shared/room-registry';
+import { createLogger } from '../../shared/logger';
+import { adminRequestError } from './auth';
 
-export { PartyKitTestServer, YjsPartyServer };
+export { PartyKitTestServer, YjsPartyServer, RoomRegistry };
 
-interface Env {
+interface Env extends YjsPartyEnv {
   PARTYKIT_TEST_PARTY: DurableObjectNamespace<PartyKitTestServer>;
   YJS_PARTY: DurableObjectNamespace<YjsPartyServer>;
+  ROOM_REGISTRY: DurableObjectNamespace<RoomRegistry>;
   [key: string]: unknown;
 }
 
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
+    // Operator view of every room that reported in (see room-registry.ts)
+    if (/^\/rooms\/?$/.test(new URL(request.url).pathname)) {
+      const log = createLogger(env, { component: 'worker' });
+      if (env.AUTH_SECRET) {
+        const denied = await adminRequestError(request, env.AUTH_SECRET);
+        if (denied) {
+          log.warn('rooms.rejected', { status: denied.status });
+          return denied;
+        }
+      } else {
+        log.warn('auth.disabled', { reason: 'AUTH_SECRET not set - allowing GET /rooms without a token' });
+      }
+      const registry = env.ROOM_REGISTRY.get(env.ROOM_REGISTRY.idFromName(ROOM_REGISTRY_NAME));
+      return registry.fetch(request);
+    }
+
     return (
       (await routePartykitRequest(request, env)) ||
-      new Response('PartyKit Test Server\nUse /parties/party-kit-test-server/test-room to connect', { 
+      new Response('PartyKit Test Server\nUse /parties/party-kit-test-server/test-room to connect\nGET /rooms lists known rooms (admin token)', { 
         status: 404,
         headers: { 'Access-Control-Allow-Origin': '*' }
       })
@@ -0,0 +1,101 @@
+/**
+ * Registry of typed custom-message handlers
+ *
+ * Each MESSAGE_CUSTOM type gets one handler and one schema. dispatch()
+ * validates `data` before the handler runs, so handlers only ever see data of
+ * the declared shape. Unknown types and invalid data are reported back to the
+ * caller instead of being silently logged.
+ *
+ * Built-in client messages (hello, ping, ...) take their schema from
+ * shared/custom-messages.ts; application messages pass their own:
+ *
+ *   registry.register('cursor-follow', v.object({ target: v.string() }), (connection, data) => { ... });
+ */
+
+import type { Connection } from "partyserver";
+import {
+  SchemaError,
+  clientMessageSchemas,
+  type ClientMessageData,
+  type ClientMessageType,
+  type CustomMessage,
+  type Schema
+} from '../../shared/custom-messages';
+
+export type CustomMessageHandler<T> = (
+  connection: Connection,
+  data: T,
+  msg: CustomMessage
+) => void | Promise<void>;
+
+export type DispatchResult = { ok: true } | { ok: false; reason: string };
+
+interface RegisteredHandler {
+  schema: Schema<unknown>;
+  handler: CustomMessageHandler<any>;
+}
+
+export class CustomMessageRegistry {
+  private handlers = new Map<string, RegisteredHandler>();
+
+  /** Register a handler for a built-in client message (schema from shared/custom-messages.ts) */
+  register<K extends ClientMessageType>(type: K, handler: CustomMessageHandler<ClientMessageData<K>>): this;
+  /** Register a handler for an application message with its own schema */
+  register<T>(type: string, schema: Schema<T>, handler: CustomMessageHandler<T>): this;
+  register(type: string, schemaOrHandler: Schema<unknown> | CustomMessageHandler<any>, maybeHandler?: CustomMessageHandler<any>): this {
+    if (this.handlers.has(type)) {
+      throw new Error(`A handler is already registered for custom message type '${type}'`);
+    }
+
+    let schema: Schema<unknown>;
+    let handler: CustomMessageHandler<any>;
+    if (typeof schemaOrHandler === 'function') {
+      schema = (clientMessageSchemas as Record<string, Schema<unknown>>)[type];
+      handler = schemaOrHandler;
+      if (!schema) {
+        throw new Error(`No built-in schema for custom message type '${type}' - pass one explicitly`);
+      }
+    } else {
+      schema = schemaOrHandler;
+      handler = maybeHandler!;
+    }
+
+    this.handlers.set(type, { schema, handler });
+    return this;
+  }
+
+  has(type: string): boolean {
+    return this.handlers.has(type);
+  }
+
+  get types(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  /**
+   * Validate and run the handler for `msg`. Handler exceptions propagate.
+   */
+  async dispatch(connection: Connection, msg: CustomMessage): Promise<DispatchResult> {
+    if (!msg || typeof msg !== 'object' || typeof msg.type !== 'string') {
+      return { ok: false, reason: 'Custom message must be an object with a string type' };
+    }
+
+    const entry = this.handlers.get(msg.type);
+    if (!entry) {
+      return { ok: false, reason: `Unknown custom message type: ${msg.type}` };
+    }
+
+    let data: unknown;
+    try {
+      data = entry.schema.parse(msg.data, 'data');
+    } catch (e) {
+      if (e instanceof SchemaError) {
+        return { ok: false, reason: `Invalid '${msg.type}' message - ${e.message}` };
+      }
+      throw e;
+    }
+
+    await entry.handler(connection, data, msg);
+    return { ok: true };
+  }
+}
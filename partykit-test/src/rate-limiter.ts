@@ -0,0 +1,146 @@
+/**
+ * Per-connection rate limiting - hibernation safe
+ *
+ * Counters are plain data (RateLimitState) that the server stores with the
+ * connection (connection.setState), so a DO waking up from hibernation keeps
+ * counting where it left off. No timers: windows are rolled forward lazily
+ * when the next message arrives.
+ *
+ * Limits (all configurable through wrangler.toml [vars]):
+ *   RATE_LIMIT_MESSAGES_PER_SECOND       - messages per connection per second
+ *   RATE_LIMIT_MAX_MESSAGE_BYTES         - size of a single message
+ *   RATE_LIMIT_UPDATE_BYTES_PER_MINUTE   - document update bytes per minute
+ *   RATE_LIMIT_MAX_VIOLATIONS            - violations before the connection is closed
+ *
+ * Messages over a limit are dropped and the client gets a warning. After
+ * maxViolations violations (without a clean minute in between) the connection
+ * is closed with CLOSE_RATE_LIMITED. A dropped verdict says when the limit
+ * that was hit resets (retryAt), so the server can ask for dropped document
+ * updates again once they would be accepted.
+ */
+
+// Close code for connections that keep exceeding their limits (shared with the provider)
+export { CLOSE_RATE_LIMITED } from '../../shared/protocol';
+
+export interface RateLimitEnv {
+  RATE_LIMIT_MESSAGES_PER_SECOND?: string;
+  RATE_LIMIT_MAX_MESSAGE_BYTES?: string;
+  RATE_LIMIT_UPDATE_BYTES_PER_MINUTE?: string;
+  RATE_LIMIT_MAX_VIOLATIONS?: string;
+}
+
+export interface RateLimitConfig {
+  maxMessagesPerSecond: number;
+  maxMessageBytes: number;
+  maxUpdateBytesPerMinute: number;
+  maxViolations: number;
+}
+
+export interface RateLimitState {
+  secondStart: number;
+  messages: number;
+  minuteStart: number;
+  updateBytes: number;
+  violations: number;
+  lastViolationAt: number;
+}
+
+export type RateLimitVerdict =
+  | { ok: true }
+  // warn = false for follow-up drops in a window that was already warned about.
+  // retryAt = when the limit that was hit resets, null if retrying can't help (too large)
+  | { ok: false; reason: string; violations: number; close: boolean; warn: boolean; retryAt: number | null };
+
+const DEFAULT_CONFIG: RateLimitConfig = {
+  maxMessagesPerSecond: 50,
+  maxMessageBytes: 512 * 1024,
+  maxUpdateBytesPerMinute: 5 * 1024 * 1024,
+  maxViolations: 5
+};
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function rateLimitConfigFromEnv(env: RateLimitEnv): RateLimitConfig {
+  return {
+    maxMessagesPerSecond: readLimit(env.RATE_LIMIT_MESSAGES_PER_SECOND, DEFAULT_CONFIG.maxMessagesPerSecond),
+    maxMessageBytes: readLimit(env.RATE_LIMIT_MAX_MESSAGE_BYTES, DEFAULT_CONFIG.maxMessageBytes),
+    maxUpdateBytesPerMinute: readLimit(env.RATE_LIMIT_UPDATE_BYTES_PER_MINUTE, DEFAULT_CONFIG.maxUpdateBytesPerMinute),
+    maxViolations: readLimit(env.RATE_LIMIT_MAX_VIOLATIONS, DEFAULT_CONFIG.maxViolations)
+  };
+}
+
+/**
+ * Account for one message. Returns the new state (to store on the connection)
+ * and whether the message may be processed.
+ *
+ * @param messageBytes - size of the whole message
+ * @param updateBytes - bytes that count against the document update budget (0 for non-updates)
+ */
+export function checkRateLimit(
+  config: RateLimitConfig,
+  previous: RateLimitState | null | undefined,
+  now: number,
+  messageBytes: number,
+  updateBytes = 0
+): { state: RateLimitState; verdict: RateLimitVerdict } {
+  const state: RateLimitState = previous
+    ? { ...previous }
+    : { secondStart: now, messages: 0, minuteStart: now, updateBytes: 0, violations: 0, lastViolationAt: 0 };
+
+  // Roll windows forward
+  if (now - state.secondStart >= 1000) {
+    state.secondStart = now;
+    state.messages = 0;
+  }
+  if (now - state.minuteStart >= 60_000) {
+    state.minuteStart = now;
+    state.updateBytes = 0;
+  }
+  // A clean minute forgives earlier violations
+  if (state.violations > 0 && now - state.lastViolationAt >= 60_000) {
+    state.violations = 0;
+  }
+
+  state.messages++;
+
+  let reason: string | null = null;
+  let retryAt: number | null = null;
+  if (messageBytes > config.maxMessageBytes) {
+    reason = `Message too large (${messageBytes} > ${config.maxMessageBytes} bytes)`;
+  } else if (state.messages > config.maxMessagesPerSecond) {
+    // A burst counts as one violation per window - the rest of it is dropped quietly
+    if (state.messages > config.maxMessagesPerSecond + 1) {
+      return {
+        state,
+        verdict: {
+          ok: false,
+          reason: 'Too many messages',
+          violations: state.violations,
+          close: false,
+          warn: false,
+          retryAt: state.secondStart + 1000
+        }
+      };
+    }
+    reason = `Too many messages (more than ${config.maxMessagesPerSecond} per second)`;
+    retryAt = state.secondStart + 1000;
+  } else if (updateBytes > 0 && state.updateBytes + updateBytes > config.maxUpdateBytesPerMinute) {
+    reason = `Too much document data (more than ${config.maxUpdateBytesPerMinute} update bytes per minute)`;
+    retryAt = state.minuteStart + 60_000;
+  }
+
+  if (reason === null) {
+    state.updateBytes += updateBytes;
+    return { state, verdict: { ok: true } };
+  }
+
+  state.violations++;
+  state.lastViolationAt = now;
+  return {
+    state,
+    verdict: { ok: false, reason, violations: state.violations, close: state.violations >= config.maxViolations, warn: true, retryAt }
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Persisted room configuration for Durable Object storage
+ *
+ * The latest 'config' and 'mode' values of a room, stored under one key so a
+ * client joining later (or after hibernation) gets the same state as everyone
+ * who saw the original message:
+ *
+ *   room-config -> RoomConfigSnapshot
+ *
+ * Every change bumps `version`. Writers can pass the version they based their
+ * change on (expectedVersion) to get a RoomConfigConflictError instead of
+ * silently overwriting someone else's change.
+ */
+
+import type { RoomConfigSnapshot } from '../../shared/custom-messages';
+
+const CONFIG_KEY = 'room-config';
+
+// Storage values are limited to 128 KiB - keep well below, it is sent to every joiner
+export const MAX_ROOM_CONFIG_BYTES = 64 * 1024;
+
+const EMPTY_CONFIG: RoomConfigSnapshot = {
+  config: null,
+  mode: null,
+  version: 0,
+  updatedAt: null,
+  updatedBy: null
+};
+
+export interface RoomConfigPatch {
+  config?: unknown;
+  mode?: unknown;
+}
+
+export class RoomConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoomConfigError';
+  }
+}
+
+export class RoomConfigConflictError extends RoomConfigError {
+  constructor(public expectedVersion: number, public current: RoomConfigSnapshot) {
+    super(`Room config is at version ${current.version}, not ${expectedVersion}`);
+    this.name = 'RoomConfigConflictError';
+  }
+}
+
+export class RoomConfigStore {
+  // Lazily loaded from storage - instance memory does not survive hibernation
+  private current: RoomConfigSnapshot | null = null;
+
+  constructor(private storage: DurableObjectStorage) {}
+
+  async get(): Promise<RoomConfigSnapshot> {
+    if (!this.current) {
+      this.current = (await this.storage.get<RoomConfigSnapshot>(CONFIG_KEY)) ?? EMPTY_CONFIG;
+    }
+    return this.current;
+  }
+
+  /**
+   * Replace config and/or mode (fields missing from `patch` are kept) and
+   * store the result with a new version.
+   */
+  async update(
+    patch: RoomConfigPatch,
+    options: { updatedBy: string | null; expectedVersion?: number }
+  ): Promise<RoomConfigSnapshot> {
+    const current = await this.get();
+    if (options.expectedVersion !== undefined && options.expectedVersion !== current.version) {
+      throw new RoomConfigConflictError(options.expectedVersion, current);
+    }
+
+    const next: RoomConfigSnapshot = {
+      config: patch.config !== undefined ? patch.config : current.config,
+      mode: patch.mode !== undefined ? patch.mode : current.mode,
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+      updatedBy: options.updatedBy
+    };
+
+    const size = JSON.stringify(next).length;
+    if (size > MAX_ROOM_CONFIG_BYTES) {
+      throw new RoomConfigError(`Room config too large (${size} > ${MAX_ROOM_CONFIG_BYTES} bytes)`);
+    }
+
+    await this.storage.put(CONFIG_KEY, next);
+    this.current = next;
+    return next;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * RoomRegistry - one Durable Object that knows which rooms exist
+ *
+ * Rooms report first connect, last disconnect and hibernation wake (see
+ * shared/room-registry.ts). One record per room is kept in storage:
+ *
+ *   room:<kind>:<name>  -> RoomRecord
+ *
+ * GET /rooms lists them for operators and cleanup jobs:
+ *   ?kind=yjs-party           only rooms of one class
+ *   ?idleMs=86400000          only empty rooms with no activity for that long
+ *
+ * The registry only hears about those three events, so `connections` and
+ * `lastActivityAt` are as of the last report and `hibernation` is inferred:
+ * 'empty' (no connections), 'awake' (reported within HIBERNATION_IDLE_MS) or
+ * 'possibly-hibernating' (connections but no report since - also the case
+ * for a room that stayed busy without new connects). wakeCount and
+ * lastWakeAt are exact.
+ *
+ * No timers and no WebSockets - the registry sleeps between reports.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type { RoomEvent, RoomKind, RoomReport } from '../../shared/room-registry';
+import { correlationId, createLogger, type Logger, type LoggerEnv } from '../../shared/logger';
+
+const ROOM_KEY_PREFIX = 'room:';
+const ROOM_KINDS: readonly RoomKind[] = ['yjs-party', 'partykit-test-party', 'raw-test-do'];
+const ROOM_EVENTS: readonly RoomEvent[] = ['connect', 'disconnect', 'wake'];
+
+// Cloudflare hibernates a WebSocket-only Durable Object after ~10s without events
+const HIBERNATION_IDLE_MS = 10_000;
+
+export interface RoomRecord {
+  kind: RoomKind;
+  name: string;
+  connections: number;
+  docSize: number | null;
+  lastEvent: RoomEvent;
+  lastActivityAt: string;
+  firstSeenAt: string;
+  wakeCount: number;
+  lastWakeAt: string | null;
+}
+
+export type HibernationState = 'empty' | 'awake' | 'possibly-hibernating';
+
+function isRoomReport(value: any): value is RoomReport {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    ROOM_KINDS.includes(value.kind) &&
+    typeof value.name === 'string' && value.name.length > 0 && value.name.length <= 256 &&
+    ROOM_EVENTS.includes(value.event) &&
+    Number.isInteger(value.connections) && value.connections >= 0 &&
+    (value.docSize === null || (Number.isInteger(value.docSize) && value.docSize >= 0))
+  );
+}
+
+export class RoomRegistry extends DurableObject<LoggerEnv> {
+  private log = createLogger(this.env, { component: 'room-registry' });
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const log = this.log.child({ correlationId: correlationId(request) });
+
+    if (url.pathname === '/report' && request.method === 'POST') {
+      return this.handleReport(request, log);
+    }
+
+    if (/^\/rooms\/?$/.test(url.pathname) && request.method === 'GET') {
+      return this.handleList(url);
+    }
+
+    return new Response('Room registry\n\nEndpoints:\n/rooms - Known rooms (?kind=, ?idleMs=)', {
+      status: 404,
+      headers: { 'Content-Type': 'text/plain' }
+    });
+  }
+
+  private async handleReport(request: Request, log: Logger): Promise<Response> {
+    let report: unknown;
+    try {
+      report = await request.json();
+    } catch {
+      return Response.json({ error: 'Body must be JSON' }, { status: 400 });
+    }
+    if (!isRoomReport(report)) {
+      log.warn('registry.invalid-report', { report });
+      return Response.json({ error: 'Invalid room report' }, { status: 400 });
+    }
+
+    const key = `${ROOM_KEY_PREFIX}${report.kind}:${report.name}`;
+    const now = new Date().toISOString();
+    const previous = await this.ctx.storage.get<RoomRecord>(key);
+    const record: RoomRecord = {
+      kind: report.kind,
+      name: report.name,
+      connections: report.connections,
+      // Only the Yjs room knows its size - keep the last one we heard
+      docSize: report.docSize ?? previous?.docSize ?? null,
+      lastEvent: report.event,
+      lastActivityAt: now,
+      firstSeenAt: previous?.firstSeenAt ?? now,
+      wakeCount: (previous?.wakeCount ?? 0) + (report.event === 'wake' ? 1 : 0),
+      lastWakeAt: report.event === 'wake' ? now : previous?.lastWakeAt ?? null
+    };
+    await this.ctx.storage.put(key, record);
+    log.info('registry.report', { kind: report.kind, room: report.name, roomEvent: report.event, connections: report.connections });
+
+    return Response.json({ ok: true });
+  }
+
+  private async handleList(url: URL): Promise<Response> {
+    const kind = url.searchParams.get('kind');
+    if (kind !== null && !ROOM_KINDS.includes(kind as RoomKind)) {
+      return Response.json({ error: `kind must be one of: ${ROOM_KINDS.join(', ')}` }, { status: 400 });
+    }
+    const idleParam = url.searchParams.get('idleMs');
+    const idleMs = idleParam === null ? null : Number(idleParam);
+    if (idleMs !== null && !(Number.isFinite(idleMs) && idleMs >= 0)) {
+      return Response.json({ error: 'idleMs must be a non-negative number' }, { status: 400 });
+    }
+
+    const now = Date.now();
+    const stored = await this.ctx.storage.list<RoomRecord>({
+      prefix: kind ? `${ROOM_KEY_PREFIX}${kind}:` : ROOM_KEY_PREFIX
+    });
+    const rooms = Array.from(stored.values())
+      .map(record => {
+        const idleFor = now - Date.parse(record.lastActivityAt);
+        return { ...record, idleMs: idleFor, hibernation: this.hibernationState(record, idleFor) };
+      })
+      .filter(room => idleMs === null || (room.connections === 0 && room.idleMs >= idleMs))
+      .sort((a, b) => Date.parse(b.lastActivityAt) - Date.parse(a.lastActivityAt));
+
+    return Response.json({
+      rooms,
+      total: rooms.length,
+      active: rooms.filter(room => room.connections > 0).length,
+      timestamp: new Date(now).toISOString()
+    });
+  }
+
+  private hibernationState(record: RoomRecord, idleFor: number): HibernationState {
+    if (record.connections === 0) return 'empty';
+    return idleFor < HIBERNATION_IDLE_MS ? 'awake' : 'possibly-hibernating';
+  }
+}
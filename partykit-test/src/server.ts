@@ -1,117 +1,115 @@
 /**
  * PartyServer Test - Using partyserver library like HolyGrail
- * 
+ *
  * This uses the exact same partyserver infrastructure as HolyGrail
  * to test if hibernation works with PartyServer wrapper.
+ *
+ * Wakes, connects, closes and messages are written to the hibernation
+ * ledger (shared/hibernation-ledger.ts) - GET .../hibernation-history.
+ * Message, byte, broadcast, wake-up and close counters are served in
+ * OpenMetrics format at GET .../metrics (shared/room-metrics.ts).
+ *
+ * Logging is structured JSON (shared/logger.ts); the per-event API checks
+ * (getConnections() vs ctx.getWebSockets(), instance age) are at debug level.
  */
 
 import { Server, type Connection, type ConnectionContext } from "partyserver";
+import {
+  CLOSE_RATE_LIMITED,
+  checkRateLimit,
+  rateLimitConfigFromEnv,
+  type RateLimitEnv,
+  type RateLimitState
+} from './rate-limiter';
+import { reportRoom, type RoomEvent, type RoomRegistryEnv } from '../../shared/room-registry';
+import { HibernationLedger, type LedgerEventType } from '../../shared/hibernation-ledger';
+import { correlationId, createLogger, type Logger, type LoggerEnv } from '../../shared/logger';
+import { METRICS_CONTENT_TYPE, RoomMetrics, messageBytes, receivedMessageType } from '../../shared/room-metrics';
 
-export class PartyKitTestServer extends Server {
+interface PartyKitTestEnv extends RateLimitEnv, RoomRegistryEnv, LoggerEnv {}
+
+// Stored with connection.setState() so the counters survive hibernation
+interface TestConnectionState {
+  rateLimit?: RateLimitState;
+}
+
+export class PartyKitTestServer extends Server<PartyKitTestEnv> {
   static options = {
     hibernate: true  // CRITICAL: Enable hibernation to test it
   };
 
   private instanceCreatedAt = Date.now();
   private lastMessageAt = 0;
+  private rateLimitConfig = rateLimitConfigFromEnv(this.env);
+  private log = createLogger(this.env, { component: 'partykit-test-party' });
+  private ledger = new HibernationLedger(this.ctx.storage, 'partykit-test-party', {
+    log: this.log.child({ component: 'hibernation-ledger' })
+  });
+  private metrics = new RoomMetrics(this.ctx.storage, 'partykit-test-party', {
+    log: this.log.child({ component: 'room-metrics' })
+  });
 
   async onStart() {
     const now = Date.now();
     const timeSinceCreation = now - this.instanceCreatedAt;
-    const timeSinceLastMessage = this.lastMessageAt > 0 ? now - this.lastMessageAt : 0;
-    
-    // 🔍 TEST: onStart after hibernation wake-up
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('🔥🔥🔥 [HIBERNATION WAKE-UP DETECTED] 🔥🔥🔥');
-    console.log('[HIBERNATION] Instance created at:', new Date(this.instanceCreatedAt).toISOString());
-    console.log('[HIBERNATION] Current time:', new Date(now).toISOString());
-    console.log('[HIBERNATION] Time since instance creation:', timeSinceCreation, 'ms');
-    if (this.lastMessageAt > 0) {
-      console.log('[HIBERNATION] Last message was at:', new Date(this.lastMessageAt).toISOString());
-      console.log('[HIBERNATION] Time since last message:', timeSinceLastMessage, 'ms');
-      console.log('[HIBERNATION] ✅ PROOF: Instance was destroyed and recreated (onStart called again)');
-    }
-    console.log('[ON-START] PartyServer onStart called');
-    console.log('[ON-START] Server name:', this.name);
-    console.log('[ON-START] Timestamp:', new Date().toISOString());
-    
-    // Try to access connections in onStart (like raw Cloudflare constructor)
-    console.log('\n[ON-START-TEST] Checking connection APIs:');
-    try {
-      const connections = Array.from(this.getConnections());
-      console.log('[ON-START] getConnections() returned:', {
-        count: connections.length,
-        timestamp: new Date().toISOString(),
-        hasConnections: connections.length > 0,
+    // lastMessageAt is always 0 here (fresh instance) - ask the ledger what the last instance did
+    const previous = await this.ledger.previousInstance();
+    const connections = Array.from(this.getConnections());
+    const log = this.eventLog(connections[0]?.server);
+    this.ctx.waitUntil(this.metrics.wake(connections.length > 0 ? 'hibernation' : 'cold_start'));
+
+    log.info('start', {
+      instanceCreatedAt: new Date(this.instanceCreatedAt).toISOString(),
+      instanceAgeMs: timeSinceCreation,
+      connections: connections.length,
+      // Open connections at start = the sockets survived hibernation
+      hibernationWake: connections.length > 0,
+      previousEventAt: previous ? new Date(previous.lastEventAt).toISOString() : null,
+      msSincePreviousEvent: previous ? now - previous.lastEventAt : null,
+      previousConnections: previous?.lastConnections ?? null
+    });
+
+    if (connections.length > 0) {
+      this.reportToRegistry('wake', connections[0].server, connections.length, log);
+      log.debug('start.connections', {
+        connections: connections.map(conn => ({ id: conn.id, server: conn.server }))
       });
-      
-      if (connections.length > 0) {
-        console.log('[ON-START] ✅ Connections found after hibernation wake-up');
-        connections.forEach((conn, i) => {
-          console.log(`[ON-START] Connection ${i + 1}:`, {
-            id: conn.id.substring(0, 12) + '...',
-            server: conn.server
-          });
-        });
-      } else {
-        console.log('[ON-START] No connections (fresh start or all closed)');
-      }
-    } catch (err) {
-      console.log('[ON-START] ❌ Could not access connections:', err);
     }
-    
-    // Try raw Cloudflare state.getWebSockets()
-    console.log('\n[ON-START-RAW-API] Testing raw Cloudflare API:');
+
+    // Raw Cloudflare state.getWebSockets() should agree with getConnections()
     try {
-      const rawSockets = this.ctx.getWebSockets();
-      console.log('[ON-START-RAW-API] ctx.state.getWebSockets():', {
-        count: rawSockets.length,
-        message: 'Raw Cloudflare API accessible!'
-      });
+      log.debug('start.raw-api', { rawSockets: this.ctx.getWebSockets().length });
     } catch (err) {
-      console.log('[ON-START-RAW-API] Error:', err);
+      log.warn('start.raw-api-failed', { error: err });
     }
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
   }
 
   async onConnect(connection: Connection, ctx: ConnectionContext): Promise<void> {
     const timeSinceCreation = Date.now() - this.instanceCreatedAt;
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('[CONNECT] ✅ New WebSocket connection');
-    console.log('[CONNECT] Connection ID:', connection.id.substring(0, 12) + '...');
-    console.log('[CONNECT] Timestamp:', new Date().toISOString());
-    console.log('[CONNECT] Time since instance creation:', timeSinceCreation, 'ms');
-    
-    if (timeSinceCreation < 1000) {
-      console.log('[CONNECT] 🔥 HIBERNATION WAKE - Connecting to fresh instance after hibernation!');
-    }
-    
+    const log = this.eventLog(connection.server, connection, ctx.request);
+
     // Get current connection count
     const connections = Array.from(this.getConnections());
     const connectionCount = connections.length;
-    
-    console.log('[CONNECT] Current connections:', connectionCount);
-    console.log('[CONNECT] New connection is included?', connections.some(c => c.id === connection.id) ? '✅' : '❌');
-    
-    // Check for HIBERNATION + NEW CONNECTION scenario
-    if (timeSinceCreation < 1000 && connectionCount > 1) {
-      console.log('[CONNECT] 🔥🔥🔥 CRITICAL TEST: New client joining hibernated room with', connectionCount - 1, 'existing connections');
-    }
-    
+    // Determine mode
+    const mode = connectionCount <= 1 ? 'solo' : 'multi';
+
+    log.info('connect', { connections: connectionCount, mode, instanceAgeMs: timeSinceCreation });
+
     // Verify raw API matches
     try {
       const rawCount = this.ctx.getWebSockets().length;
-      console.log('[CONNECT] Raw API count:', rawCount, rawCount === connectionCount ? '✅ matches' : '❌ mismatch');
+      log.debug('connect.api-check', {
+        newConnectionIncluded: connections.some(c => c.id === connection.id),
+        rawSockets: rawCount,
+        match: rawCount === connectionCount,
+        // Fresh instance with existing connections = joining a hibernated room
+        joinedHibernatedRoom: timeSinceCreation < 1000 && connectionCount > 1
+      });
     } catch (err) {
-      console.log('[CONNECT] Raw API error:', err);
+      log.warn('connect.raw-api-failed', { error: err });
     }
-    
-    // Determine mode
-    const mode = connectionCount <= 1 ? 'solo' : 'multi';
-    console.log('[CONNECT] Mode:', mode);
-    
+
     // 🎯 BROADCAST CONNECTION COUNT TO ALL CLIENTS
     const connectionInfo = {
       type: 'connection-count',
@@ -122,69 +120,80 @@ export class PartyKitTestServer extends Server {
       hibernationWake: timeSinceCreation < 1000,
       timestamp: new Date().toISOString()
     };
-    console.log('[BROADCAST] Broadcasting to all clients:', connectionInfo);
+    log.debug('broadcast.connection-count', connectionInfo);
     this.broadcast(JSON.stringify(connectionInfo));
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+
+    if (connectionCount === 1) {
+      this.reportToRegistry('connect', this.name, connectionCount, log);
+    }
+    this.ctx.waitUntil(this.ledger.record('connect', 'websocket', connectionCount, { connectionId: connection.id }));
   }
 
   async onMessage(connection: Connection, message: string | ArrayBuffer): Promise<void> {
     const now = Date.now();
     const timeSinceLastMessage = this.lastMessageAt > 0 ? now - this.lastMessageAt : 0;
     const timeSinceCreation = now - this.instanceCreatedAt;
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('[MESSAGE] Received message');
-    console.log('[MESSAGE] From:', connection.id.substring(0, 12) + '...');
-    console.log('[MESSAGE] Content:', message);
-    console.log('[MESSAGE] Timestamp:', new Date().toISOString());
-    console.log('[MESSAGE] Time since instance creation:', timeSinceCreation, 'ms');
-    console.log('[MESSAGE] Time since last message:', timeSinceLastMessage, 'ms');
-    
+    const log = this.eventLog(connection.server, connection);
+    this.ctx.waitUntil(this.metrics.messageReceived(receivedMessageType(message), messageBytes(message)));
+
+    log.debug('message', {
+      content: typeof message === 'string' ? message : { bytes: message.byteLength },
+      instanceAgeMs: timeSinceCreation,
+      msSinceLastMessage: timeSinceLastMessage
+    });
+
+    // 🚦 Per-connection rate limits
+    const conn = connection as Connection<TestConnectionState>;
+    const size = typeof message === 'string' ? message.length : message.byteLength;
+    const { state, verdict } = checkRateLimit(this.rateLimitConfig, conn.state?.rateLimit, now, size);
+    conn.setState({ rateLimit: state });
+    if (!verdict.ok) {
+      if (verdict.close) {
+        log.warn('rate-limit.close', { reason: verdict.reason });
+        connection.close(CLOSE_RATE_LIMITED, verdict.reason);
+      } else if (verdict.warn) {
+        log.warn('rate-limit.drop', { reason: verdict.reason, violations: verdict.violations, maxViolations: this.rateLimitConfig.maxViolations });
+        const warning = JSON.stringify({
+          type: 'rate-limit-warning',
+          reason: verdict.reason,
+          violations: verdict.violations,
+          maxViolations: this.rateLimitConfig.maxViolations,
+          timestamp: new Date().toISOString()
+        });
+        connection.send(warning);
+        this.ctx.waitUntil(this.metrics.sent(messageBytes(warning)));
+      }
+      return;
+    }
+
     // Update last message time
     this.lastMessageAt = now;
-    
-    // Detect if we just woke from hibernation
-    if (timeSinceCreation < 100 && timeSinceLastMessage === 0) {
-      console.log('[MESSAGE] 🆕 First message on fresh instance');
-    } else if (timeSinceCreation < 1000) {
-      console.log('[MESSAGE] 🔥🔥🔥 HIBERNATION DETECTED: Instance just created but receiving message!');
-      console.log('[MESSAGE] This means DO was evicted and woke up for this message');
+    this.ctx.waitUntil(this.ledger.recordMessage('websocket', Array.from(this.getConnections()).length));
+
+    // A message on an instance that's less than a second old means the DO was evicted and woke up for it
+    if (timeSinceCreation < 1000 && !(timeSinceCreation < 100 && timeSinceLastMessage === 0)) {
+      log.info('message.hibernation-wake', { instanceAgeMs: timeSinceCreation });
     }
-    
-    console.log('\n[MESSAGE-COUNT-TEST] Testing connection count APIs:');
+
+    // getConnections() is the only reliable count - compare with the raw API
     const currentConnections = Array.from(this.getConnections());
     const apiCount = currentConnections.length;
-    
-    console.log('[MESSAGE-COUNT] Connection count:', apiCount);
-    console.log('[MESSAGE-COUNT] ✅ Using getConnections() - the ONLY reliable method');
-    
-    // Show all connection IDs
-    if (currentConnections.length > 0) {
-      console.log('\n[MESSAGE-CONNECTIONS] Current connections:');
-      currentConnections.forEach((conn, i) => {
-        const isSender = conn.id === connection.id;
-        console.log(`[MESSAGE-CONNECTIONS] ${i + 1}. ${conn.id.substring(0, 12)}... ${isSender ? '← SENDER' : ''}`);
-      });
-    }
-    
-    // Try raw Cloudflare API
-    console.log('\n[MESSAGE-RAW-API] Testing raw Cloudflare API:');
     try {
-      const rawSockets = this.ctx.getWebSockets();
-      console.log('[MESSAGE-RAW-API] ctx.getWebSockets():', {
-        count: rawSockets.length,
-        matchesPartyServer: rawSockets.length === apiCount
+      const rawCount = this.ctx.getWebSockets().length;
+      log.debug('message.api-check', {
+        connections: apiCount,
+        rawSockets: rawCount,
+        match: rawCount === apiCount,
+        connectionIds: currentConnections.map(c => c.id)
       });
-      if (rawSockets.length !== apiCount) {
-        console.log('[MESSAGE-RAW-API] ❌❌❌ Raw Cloudflare count differs from PartyServer!');
+      if (rawCount !== apiCount) {
+        log.warn('message.api-mismatch', { connections: apiCount, rawSockets: rawCount });
       }
     } catch (err) {
-      console.log('[MESSAGE-RAW-API] Error:', err);
+      log.warn('message.raw-api-failed', { error: err });
     }
 
     // Broadcast to ALL connections
-    console.log('\n[MESSAGE-BROADCAST] Broadcasting to', apiCount, 'connections');
     const broadcastMsg = JSON.stringify({
       type: 'broadcast',
       originalMessage: typeof message === 'string' ? message : '<binary>',
@@ -192,42 +201,37 @@ export class PartyKitTestServer extends Server {
       serverTime: new Date().toISOString(),
       connectionCount: apiCount
     });
-    
+
     this.broadcast(broadcastMsg);
-    console.log('[MESSAGE-BROADCAST] Broadcast complete');
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+    log.debug('broadcast.message', { connections: apiCount });
   }
 
-  async onClose(connection: Connection): Promise<void> {
+  async onClose(connection: Connection, code: number): Promise<void> {
     const timeSinceCreation = Date.now() - this.instanceCreatedAt;
-    
-    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('[CLOSE] ❌ Connection closing');
-    console.log('[CLOSE] Connection ID:', connection.id.substring(0, 12) + '...');
-    console.log('[CLOSE] Timestamp:', new Date().toISOString());
-    console.log('[CLOSE] Time since instance creation:', timeSinceCreation, 'ms');
-    
-    if (timeSinceCreation < 1000) {
-      console.log('[CLOSE] 🔥 HIBERNATION - Disconnect on fresh instance after hibernation!');
-    }
-    
+    const log = this.eventLog(connection.server, connection);
+    this.ctx.waitUntil(this.metrics.closed(code));
+
+    log.info('close', {
+      code,
+      instanceAgeMs: timeSinceCreation,
+      // Disconnect handled by a fresh instance = the DO hibernated in between
+      hibernationWake: timeSinceCreation < 1000
+    });
+
     // Delayed check to get accurate count after connection is removed
     setTimeout(() => {
       const connections = Array.from(this.getConnections());
       const connectionCount = connections.length;
       const mode = connectionCount <= 1 ? 'solo' : 'multi';
-      
-      console.log('[CLOSE-DELAYED] Final connection count:', connectionCount);
-      console.log('[CLOSE-DELAYED] Mode:', mode);
-      
+
       // Verify raw API
       try {
         const rawCount = this.ctx.getWebSockets().length;
-        console.log('[CLOSE-DELAYED] Raw API count:', rawCount, rawCount === connectionCount ? '✅ matches' : '❌ mismatch');
+        log.debug('close.api-check', { connections: connectionCount, rawSockets: rawCount, match: rawCount === connectionCount, mode });
       } catch (err) {
-        console.log('[CLOSE-DELAYED] Raw API error:', err);
+        log.warn('close.raw-api-failed', { error: err });
       }
-      
+
       // 🎯 BROADCAST UPDATED CONNECTION COUNT
       const disconnectInfo = {
         type: 'connection-count',
@@ -236,35 +240,75 @@ export class PartyKitTestServer extends Server {
         event: 'disconnect',
         timestamp: new Date().toISOString()
       };
-      console.log('[BROADCAST] Broadcasting to remaining clients:', disconnectInfo);
+      log.debug('broadcast.connection-count', disconnectInfo);
       this.broadcast(JSON.stringify(disconnectInfo));
+
+      this.ctx.waitUntil(this.ledger.record('close', 'websocket', connectionCount, { connectionId: connection.id }));
+      if (connectionCount === 0) {
+        this.reportToRegistry('disconnect', connection.server, connectionCount, log);
+        this.ctx.waitUntil(this.ledger.record('sleep-candidate', 'last-close', 0));
+      }
     }, 0);
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+  }
+
+  // Every broadcast is counted for /metrics
+  override broadcast(msg: string | ArrayBuffer | ArrayBufferView, without?: string[]) {
+    let recipients = 0;
+    for (const conn of this.getConnections()) {
+      if (!without?.includes(conn.id)) recipients++;
+    }
+    super.broadcast(msg, without);
+    this.metrics.broadcast();
+    this.ctx.waitUntil(this.metrics.sent(messageBytes(msg), recipients));
+  }
+
+  // First connect / last disconnect / wake -> RoomRegistry (GET /rooms on the worker)
+  private reportToRegistry(event: RoomEvent, name: string, connections: number, log: Logger) {
+    log.debug('registry.reporting', { roomEvent: event });
+    this.ctx.waitUntil(reportRoom(this.env.ROOM_REGISTRY, {
+      kind: 'partykit-test-party',
+      name,
+      event,
+      connections,
+      docSize: null
+    }, log));
+  }
+
+  /**
+   * Logger for one incoming event. `room` is passed in because this.name
+   * isn't set yet when an alarm wakes the object.
+   */
+  private eventLog(room: string | undefined, connection?: Connection, request?: Request): Logger {
+    return this.log.child({
+      room: room ?? null,
+      ...(connection ? { connectionId: connection.id } : {}),
+      correlationId: correlationId(request)
+    });
   }
 
   async onError(connection: Connection, error: unknown): Promise<void> {
-    console.log('[ERROR] WebSocket error:', error);
+    this.eventLog(connection.server, connection).error('websocket.error', { error });
   }
 
   async onRequest(request: Request): Promise<Response> {
     const url = new URL(request.url);
-    
+    const log = this.eventLog(this.name, undefined, request);
+
     // Status endpoint - check if path ends with /status
     if (url.pathname.endsWith('/status')) {
       // getConnections() count (PartyServer API)
       const connections = Array.from(this.getConnections());
       const apiCount = connections.length;
-      
+
       // Try raw Cloudflare API
       let rawCount = 0;
       try {
         const rawSockets = this.ctx.getWebSockets();
         rawCount = rawSockets.length;
       } catch (err) {
-        console.log('[STATUS] ❌ Could not access ctx.getWebSockets:', err);
+        log.warn('status.raw-api-failed', { error: err });
       }
-      
+
       const status = {
         connectionCount: apiCount,
         rawCloudflareCount: rawCount,
@@ -276,18 +320,39 @@ export class PartyKitTestServer extends Server {
         hibernationEnabled: true,
         serverName: this.name
       };
-      
-      console.log('[STATUS]', status);
-      
+
+      log.debug('status', status);
+
       return new Response(JSON.stringify(status, null, 2), {
-        headers: { 
-          'Content-Type': 'application/json', 
-          'Access-Control-Allow-Origin': '*' 
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
         }
       });
     }
-    
-    return new Response('PartyServer Test - Status available at /status', {
+
+    if (url.pathname.endsWith('/metrics')) {
+      return new Response(await this.metrics.render({
+        room: this.name,
+        connections: Array.from(this.getConnections()).length
+      }), { headers: { 'Content-Type': METRICS_CONTENT_TYPE } });
+    }
+
+    if (url.pathname.endsWith('/hibernation-history')) {
+      const type = url.searchParams.get('type') as LedgerEventType | null;
+      const limit = url.searchParams.get('limit');
+      return new Response(JSON.stringify(await this.ledger.history({
+        type: type ?? undefined,
+        limit: limit ? parseInt(limit, 10) : undefined
+      }), null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    return new Response('PartyServer Test - Status available at /status, hibernation ledger at /hibernation-history, metrics at /metrics', {
       headers: { 'Access-Control-Allow-Origin': '*' }
     });
   }
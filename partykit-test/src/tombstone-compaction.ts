@@ -0,0 +1,70 @@
+/**
+ * Tombstone compaction for gc: false documents
+ *
+ * The live document runs with gc: false (hibernation), so deleted content
+ * stays in it forever: every removed character and paragraph is kept as a
+ * tombstone with its full content. Compaction rebuilds the document through
+ * a scratch doc with gc: true - applying the state there garbage-collects
+ * every deleted item - and loads the result into a fresh gc: false doc.
+ *
+ * Item ids (client id + clock) are preserved and only the content of deleted
+ * items is dropped, exactly what a gc: true client does on its own. So state
+ * vectors don't change and connected clients keep syncing; they are told
+ * about it so they can re-exchange state (sync step 1) to rebase anything
+ * they sent while it ran.
+ *
+ * Everything here is synchronous - no timers, nothing left running.
+ */
+
+import * as Y from 'yjs';
+
+export interface TombstoneStats {
+  docBytes: number;
+  compactedBytes: number;
+  overheadBytes: number;  // What compaction would save
+  overheadRatio: number;  // overheadBytes / docBytes
+  deletedLength: number;  // Deleted items (characters, elements) still stored
+}
+
+function encodeCompacted(doc: Y.Doc): Uint8Array {
+  const scratch = new Y.Doc({ gc: true });
+  Y.applyUpdate(scratch, Y.encodeStateAsUpdate(doc));
+  const state = Y.encodeStateAsUpdate(scratch);
+  scratch.destroy();
+  return state;
+}
+
+/**
+ * Measure how much of the encoded document is tombstones. Costs a full
+ * encode + scratch rebuild - fine for /status and the compaction job, not
+ * for every message.
+ */
+export function tombstoneStats(doc: Y.Doc): TombstoneStats {
+  const docBytes = Y.encodeStateAsUpdate(doc).length;
+  const compactedBytes = encodeCompacted(doc).length;
+
+  let deletedLength = 0;
+  Y.createDeleteSetFromStructStore(doc.store).clients.forEach(items => {
+    items.forEach(item => { deletedLength += item.len; });
+  });
+
+  const overheadBytes = Math.max(docBytes - compactedBytes, 0);
+  return {
+    docBytes,
+    compactedBytes,
+    overheadBytes,
+    overheadRatio: docBytes > 0 ? overheadBytes / docBytes : 0,
+    deletedLength
+  };
+}
+
+/**
+ * Rebuild `doc` without tombstones. Returns the fresh gc: false doc and its
+ * encoded state (the new snapshot). `doc` itself is left untouched.
+ */
+export function compactDoc(doc: Y.Doc): { doc: Y.Doc; state: Uint8Array } {
+  const state = encodeCompacted(doc);
+  const compacted = new Y.Doc({ gc: false });
+  Y.applyUpdate(compacted, state);
+  return { doc: compacted, state };
+}
@@ -0,0 +1,226 @@
+/**
+ * Append-only Yjs update log for Durable Object storage
+ *
+ * Re-encoding the whole document on every keystroke gets slower and more
+ * expensive as the document grows. Instead we store each incoming update
+ * under its own key and only fold them back into a snapshot once the log
+ * gets long:
+ *
+ *   yjs-document-state        -> snapshot (Y.encodeStateAsUpdate)
+ *   yjs-update:0000000001     -> update appended after the snapshot
+ *   yjs-update:0000000002     -> ...
+ *
+ * Loading = apply snapshot, then apply every logged update in key order.
+ * Yjs updates are idempotent and commutative, so a crash between writing the
+ * snapshot and deleting the log entries is harmless.
+ *
+ * BUFFERING: buffer() keeps updates in memory; flush() merges them
+ * (Y.mergeUpdates) into a single log entry. Deciding *when* to flush is up to
+ * the server (alarm, size threshold, write-through mode - see
+ * PersistenceConfig). A snapshot written by compact() covers the buffer too.
+ *
+ * HIBERNATION: no timers, no listeners. Compaction runs inline, right after
+ * the append that crossed the threshold.
+ */
+
+import * as Y from 'yjs';
+import { Logger } from '../../shared/logger';
+
+const DELETE_BATCH_SIZE = 128; // DO storage delete() accepts at most 128 keys
+
+/**
+ * How buffered updates reach storage (wrangler.toml [vars]):
+ *   PERSISTENCE_MODE              - 'debounced' (default) or 'write-through'
+ *   PERSISTENCE_FLUSH_DELAY_MS    - quiet period before a flush
+ *   PERSISTENCE_MAX_DELAY_MS      - longest an update may wait during continuous typing
+ *   PERSISTENCE_MAX_BUFFER_BYTES  - flush right away once this much is buffered
+ */
+export interface PersistenceEnv {
+  PERSISTENCE_MODE?: string;
+  PERSISTENCE_FLUSH_DELAY_MS?: string;
+  PERSISTENCE_MAX_DELAY_MS?: string;
+  PERSISTENCE_MAX_BUFFER_BYTES?: string;
+}
+
+export type PersistenceMode = 'debounced' | 'write-through';
+
+export interface PersistenceConfig {
+  mode: PersistenceMode;
+  flushDelayMs: number;
+  maxDelayMs: number;
+  maxBufferBytes: number;
+}
+
+// maxDelayMs stays well below the ~10s after which an idle DO may be evicted
+const DEFAULT_PERSISTENCE: PersistenceConfig = {
+  mode: 'debounced',
+  flushDelayMs: 1000,
+  maxDelayMs: 5000,
+  maxBufferBytes: 64 * 1024
+};
+
+function readPositive(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function persistenceConfigFromEnv(env: PersistenceEnv): PersistenceConfig {
+  return {
+    mode: env.PERSISTENCE_MODE === 'write-through' ? 'write-through' : DEFAULT_PERSISTENCE.mode,
+    flushDelayMs: readPositive(env.PERSISTENCE_FLUSH_DELAY_MS, DEFAULT_PERSISTENCE.flushDelayMs),
+    maxDelayMs: readPositive(env.PERSISTENCE_MAX_DELAY_MS, DEFAULT_PERSISTENCE.maxDelayMs),
+    maxBufferBytes: readPositive(env.PERSISTENCE_MAX_BUFFER_BYTES, DEFAULT_PERSISTENCE.maxBufferBytes)
+  };
+}
+
+export interface UpdateLogOptions {
+  snapshotKey: string;
+  prefix?: string;
+  compactThreshold?: number;
+  log?: Logger;
+}
+
+export class UpdateLog {
+  private snapshotKey: string;
+  private prefix: string;
+  private compactThreshold: number;
+  private log: Logger;
+
+  // Highest sequence number written so far (rebuilt from storage in load())
+  private seq = 0;
+  // Keys currently in the log, oldest first
+  private keys: string[] = [];
+  // Updates not written yet (lost if the instance dies before flush())
+  private pending: Uint8Array[] = [];
+  private pendingBytesCount = 0;
+  private pendingSinceAt: number | null = null;
+
+  constructor(private storage: DurableObjectStorage, options: UpdateLogOptions) {
+    this.snapshotKey = options.snapshotKey;
+    this.prefix = options.prefix ?? 'yjs-update:';
+    this.compactThreshold = options.compactThreshold ?? 100;
+    this.log = options.log ?? new Logger('info', { component: 'update-log' });
+  }
+
+  get length() {
+    return this.keys.length;
+  }
+
+  get pendingUpdates() {
+    return this.pending.length;
+  }
+
+  get pendingBytes() {
+    return this.pendingBytesCount;
+  }
+
+  /** When the oldest unflushed update was buffered (null = nothing pending) */
+  get pendingSince() {
+    return this.pendingSinceAt;
+  }
+
+  /**
+   * Rebuild a document from snapshot + log. Returns the number of bytes read.
+   */
+  async load(doc: Y.Doc): Promise<number> {
+    let bytes = 0;
+
+    const snapshot = await this.storage.get<Uint8Array>(this.snapshotKey);
+    if (snapshot) {
+      Y.applyUpdate(doc, snapshot);
+      bytes += snapshot.length;
+    }
+
+    const entries = await this.storage.list<Uint8Array>({ prefix: this.prefix });
+    this.keys = [];
+    for (const [key, update] of entries) {
+      Y.applyUpdate(doc, update);
+      bytes += update.length;
+      this.keys.push(key);
+    }
+
+    const lastKey = this.keys[this.keys.length - 1];
+    this.seq = lastKey ? parseInt(lastKey.slice(this.prefix.length), 10) : 0;
+
+    this.log.info('update-log.loaded', { snapshotBytes: snapshot ? snapshot.length : 0, loggedUpdates: this.keys.length });
+    return bytes;
+  }
+
+  /**
+   * Append a single update. Compacts into a fresh snapshot of `doc` once the
+   * log reaches the configured threshold.
+   */
+  async append(doc: Y.Doc, update: Uint8Array) {
+    this.seq++;
+    const key = this.prefix + String(this.seq).padStart(10, '0');
+    await this.storage.put(key, update);
+    this.keys.push(key);
+    this.log.debug('update-log.appended', { key, bytes: update.length, logLength: this.keys.length });
+
+    if (this.keys.length >= this.compactThreshold) {
+      await this.compact(doc);
+    }
+  }
+
+  /**
+   * Keep an update in memory until the next flush().
+   */
+  buffer(update: Uint8Array, now = Date.now()) {
+    this.pending.push(update);
+    this.pendingBytesCount += update.length;
+    this.pendingSinceAt ??= now;
+  }
+
+  /**
+   * Write all buffered updates as one merged log entry. Returns the bytes written.
+   */
+  async flush(doc: Y.Doc): Promise<number> {
+    if (this.pending.length === 0) return 0;
+
+    const updates = this.pending;
+    this.dropPending();
+    const merged = updates.length === 1 ? updates[0] : Y.mergeUpdates(updates);
+    this.log.debug('update-log.flush', { updates: updates.length, bytes: merged.length });
+    await this.append(doc, merged);
+    return merged.length;
+  }
+
+  /**
+   * Replace snapshot + log with a single snapshot of the current document.
+   */
+  async compact(doc: Y.Doc) {
+    const state = Y.encodeStateAsUpdate(doc);
+    const compacted = this.keys;
+    this.keys = [];
+    // The snapshot already contains everything that was buffered
+    this.dropPending();
+
+    await this.storage.put(this.snapshotKey, state);
+    await this.deleteKeys(compacted);
+    this.log.info('update-log.compacted', { updates: compacted.length, snapshotBytes: state.length });
+  }
+
+  /**
+   * Remove the snapshot and every logged update.
+   */
+  async clear() {
+    const entries = await this.storage.list({ prefix: this.prefix });
+    await this.storage.delete(this.snapshotKey);
+    await this.deleteKeys(Array.from(entries.keys()));
+    this.keys = [];
+    this.seq = 0;
+    this.dropPending();
+  }
+
+  private dropPending() {
+    this.pending = [];
+    this.pendingBytesCount = 0;
+    this.pendingSinceAt = null;
+  }
+
+  private async deleteKeys(keys: string[]) {
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      await this.storage.delete(keys.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+}
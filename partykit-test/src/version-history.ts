@@ -0,0 +1,145 @@
+/**
+ * Document version history for Durable Object storage
+ *
+ * Versions are full snapshots (Y.encodeStateAsUpdate) stored one per key,
+ * plus a small index with the metadata:
+ *
+ *   yjs-versions-index   -> VersionInfo[] (oldest first)
+ *   yjs-version:<id>     -> snapshot bytes
+ *
+ * We deliberately store full updates rather than Y.snapshot() (state vector +
+ * delete set). Those only work as long as the live document keeps every
+ * tombstone, which ties versions to gc: false forever.
+ *
+ * Restoring never replaces the live document. Instead we compute an update
+ * that reverts everything since the version (UndoManager trick on a scratch
+ * doc) and apply it like any other edit, so connected clients converge
+ * through the normal sync path.
+ */
+
+import * as Y from 'yjs';
+import { Logger } from '../../shared/logger';
+
+export interface VersionInfo {
+  id: string;
+  name: string | null;
+  auto: boolean;
+  createdAt: string;
+  size: number;
+}
+
+export interface VersionHistoryOptions {
+  maxAutoVersions?: number;
+  autoIntervalMs?: number;
+  log?: Logger;
+}
+
+const INDEX_KEY = 'yjs-versions-index';
+const VERSION_PREFIX = 'yjs-version:';
+
+// Transaction origin used while computing a revert on the scratch doc
+const REVERT_ORIGIN = 'version-restore';
+
+export class VersionHistory {
+  private maxAutoVersions: number;
+  private autoIntervalMs: number;
+  private log: Logger;
+
+  // Lazily loaded from storage - instance memory does not survive hibernation
+  private index: VersionInfo[] | null = null;
+
+  constructor(private storage: DurableObjectStorage, options: VersionHistoryOptions = {}) {
+    this.maxAutoVersions = options.maxAutoVersions ?? 20;
+    this.autoIntervalMs = options.autoIntervalMs ?? 10 * 60 * 1000;
+    this.log = options.log ?? new Logger('info', { component: 'versions' });
+  }
+
+  async list(): Promise<VersionInfo[]> {
+    if (!this.index) {
+      this.index = (await this.storage.get<VersionInfo[]>(INDEX_KEY)) ?? [];
+    }
+    return this.index;
+  }
+
+  async get(id: string): Promise<{ info: VersionInfo; state: Uint8Array } | null> {
+    const info = (await this.list()).find(v => v.id === id);
+    if (!info) return null;
+
+    const state = await this.storage.get<Uint8Array>(VERSION_PREFIX + id);
+    if (!state) return null;
+
+    return { info, state };
+  }
+
+  /**
+   * Store a snapshot of `doc`. Named versions are kept forever, automatic
+   * ones are pruned down to `maxAutoVersions`.
+   */
+  async create(doc: Y.Doc, name: string | null = null): Promise<VersionInfo> {
+    const index = await this.list();
+    const state = Y.encodeStateAsUpdate(doc);
+    const info: VersionInfo = {
+      id: crypto.randomUUID().slice(0, 8),
+      name,
+      auto: name === null,
+      createdAt: new Date().toISOString(),
+      size: state.length
+    };
+
+    index.push(info);
+    const pruned = this.prune(index);
+
+    await this.storage.put(VERSION_PREFIX + info.id, state);
+    if (pruned.length > 0) {
+      await this.storage.delete(pruned.map(v => VERSION_PREFIX + v.id));
+    }
+    await this.storage.put(INDEX_KEY, this.index);
+
+    this.log.info('version.created', { versionId: info.id, name: info.name ?? null, auto: info.auto, bytes: state.length });
+    return info;
+  }
+
+  /**
+   * Create an automatic version if the last one is older than the interval.
+   */
+  async maybeCreateAuto(doc: Y.Doc): Promise<VersionInfo | null> {
+    const index = await this.list();
+    const lastAuto = [...index].reverse().find(v => v.auto);
+    if (lastAuto && Date.now() - Date.parse(lastAuto.createdAt) < this.autoIntervalMs) {
+      return null;
+    }
+    return this.create(doc);
+  }
+
+  /**
+   * Compute the update that turns `doc` back into the content of `versionState`.
+   * The update only adds operations (inserts/deletes), it never rewrites history.
+   */
+  static revertUpdate(doc: Y.Doc, versionState: Uint8Array): Uint8Array {
+    const scratch = new Y.Doc({ gc: false });
+    Y.applyUpdate(scratch, versionState);
+
+    // Changes made since the version, replayed on the scratch doc as one undoable step
+    const undoManager = new Y.UndoManager(
+      Array.from(doc.share.keys()).map(name => scratch.get(name)),
+      { trackedOrigins: new Set([REVERT_ORIGIN]), captureTimeout: 0 }
+    );
+    const changesSinceVersion = Y.encodeStateAsUpdate(doc, Y.encodeStateVector(scratch));
+    Y.applyUpdate(scratch, changesSinceVersion, REVERT_ORIGIN);
+    undoManager.undo();
+
+    const revert = Y.encodeStateAsUpdate(scratch, Y.encodeStateVector(doc));
+    undoManager.destroy();
+    scratch.destroy();
+    return revert;
+  }
+
+  private prune(index: VersionInfo[]): VersionInfo[] {
+    const autos = index.filter(v => v.auto);
+    const pruned = autos.slice(0, Math.max(0, autos.length - this.maxAutoVersions));
+    if (pruned.length > 0) {
+      this.index = index.filter(v => !pruned.includes(v));
+    }
+    return pruned;
+  }
+}
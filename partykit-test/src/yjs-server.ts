@@ -13,6 +13,181 @@
  * ✅ Uses Cloudflare hibernatable WebSocket API
  * ✅ hibernate: true in Server.options
  * 
+ * PERSISTENCE:
+ * Updates are appended to an update log (one storage key per update) instead of
+ * re-encoding the whole document each time. The log is compacted back into the
+ * snapshot key once it gets long. See update-log.ts.
+ * In the default 'debounced' mode updates are buffered in memory and written
+ * as one merged entry by an alarm after a quiet period (at most maxDelayMs
+ * during continuous typing), right away once the buffer is large, and when a
+ * connection closes - all well before an idle instance can be evicted.
+ * PERSISTENCE_MODE = "write-through" writes every update before moving on.
+ * Server-side updates (restore, import) are always written through. A client's
+ * sync step 2 is persisted too, so edits lost with a dying instance come back
+ * when its clients reconnect.
+ * Connections with the 'saved' capability get a 'saved' message with the
+ * persisted state vector and the reset epoch on connect (before sync step 1,
+ * so a provider holding a pre-reset local copy can drop it before it syncs)
+ * and after every flush, compaction and clear - that's how offline-first
+ * providers tell "saved locally" from "saved on the server".
+ * 
+ * VERSION HISTORY:
+ * Named versions are created via POST /versions, automatic ones at most every
+ * few minutes while edits arrive and before every /clear or restore. Restoring
+ * applies a revert update through the normal sync path. Creating and
+ * restoring need an admin token; listing and reading need a token of any role.
+ * See version-history.ts.
+ * 
+ * AUTHENTICATION:
+ * Clients pass an HS256 JWT as ?token=. It is verified in onConnect and the
+ * claims (user id, name, role) are stored with connection.setState(), which is
+ * serialized with the hibernatable WebSocket. Connections without a valid token
+ * are closed with CLOSE_UNAUTHORIZED. If AUTH_SECRET is unset, auth is disabled.
+ * See auth.ts.
+ * 
+ * PROTOCOL VERSIONS:
+ * The provider announces its protocol version and capabilities in the URL.
+ * onConnect negotiates (shared/protocol.ts) before anything else is sent:
+ * same/newer clients are accepted, older ones are downgraded (tabs from
+ * before the handshake are read-only) and incompatible ones are closed with
+ * CLOSE_PROTOCOL_MISMATCH. Optional messages only go to clients that listed
+ * the matching capability.
+ * 
+ * READ-ONLY VIEWERS:
+ * Connections with role 'viewer' (or ?readonly=1) get sync step 1/2, awareness
+ * and live updates, but their sync step 2 / update messages are dropped and
+ * answered with a 'read-only' custom message.
+ * 
+ * PRESENCE ACROSS HIBERNATION:
+ * Each connection's user metadata and last awareness state live in its
+ * attachment (ConnectionData). onStart() rebuilds connectedUsers and
+ * customAwareness from getConnections(), so presence is identical before and
+ * after a wake-up. Attachments are limited to 2 KiB, so awareness states over
+ * MAX_AWARENESS_STATE_LENGTH are ignored - rate limit counters, reset epoch
+ * and protocol always have room.
+ * 
+ * USER IDENTITY:
+ * Clients announce who they are with a 'hello' custom message
+ * ({ name, color, profile_picture_url }). It is validated, attached to the
+ * connection and included in the 'users' array of connection-count broadcasts.
+ * For authenticated connections the token's name wins over the hello name.
+ * 
+ * STALE AWARENESS EXPIRY:
+ * Close events can arrive late (or never), leaving ghost cursors behind. Each
+ * awareness entry carries a lastSeen time, refreshed by any message from its
+ * connection. A Durable Object alarm (not setInterval!) removes entries older
+ * than AWARENESS_TIMEOUT_MS and broadcasts state: null. The alarm is only
+ * scheduled while there are live awareness states, so an empty room can still
+ * hibernate and stays asleep.
+ * 
+ * RATE LIMITS:
+ * Messages per second, bytes per message and update bytes per minute are
+ * limited per connection (counters live in the attachment). Violations get a
+ * 'rate-limit' custom message; repeat offenders are closed with
+ * CLOSE_RATE_LIMITED. The client has already applied a dropped document
+ * update and won't send it again, so once the limit resets (alarm, or its
+ * next message) the server sends it sync step 1 and gets the missing state
+ * back as step 2. See rate-limiter.ts.
+ * 
+ * CUSTOM MESSAGES:
+ * MESSAGE_CUSTOM types are dispatched through a CustomMessageRegistry. Each
+ * type has a schema (shared/custom-messages.ts for the built-ins) and invalid
+ * or unknown messages get an 'error' reply. Subclasses can register their own
+ * types on this.customMessages. See message-registry.ts.
+ * 
+ * DIRECT MESSAGES:
+ * A 'direct' message carries a payload for one connection (connectionId) or
+ * all connections of one user (userId). Only the target receives it; if the
+ * target isn't connected the sender gets an 'error' with for: 'direct'.
+ * 
+ * ROOM CONFIG:
+ * The latest 'config' and 'mode' values are stored (versioned) in DO storage
+ * and sent to every new connection as a 'room-config' message right after
+ * sync step 1, so late joiners see the same state. Also readable/writable via
+ * GET/PUT /config (PUT needs an admin token). Viewers can't change it.
+ * See room-config.ts.
+ * 
+ * EXPORT:
+ * GET /export?format=json|html|markdown|update renders the prosemirror
+ * fragment on the server (or returns the raw Y.encodeStateAsUpdate), for
+ * backups, previews and indexing without a browser. It needs a token of any
+ * role (Bearer or ?token=); HTML is served sandboxed. See document-export.ts.
+ * 
+ * IMPORT:
+ * POST /import?format=update|html|markdown&mode=merge|replace (admin token)
+ * loads content into the room. It becomes one server update (applied, persisted, broadcast
+ * like a client edit), and a version is created first so it can be undone.
+ * See document-import.ts.
+ * 
+ * RESET (/clear):
+ * POST /clear needs an admin token (Authorization: Bearer). It snapshots a
+ * version, starts a fresh doc and broadcasts a 'reset' message; providers
+ * throw their local doc away and resync. Each reset bumps the room's reset
+ * epoch. Connections still on an older epoch can't write until they send a
+ * new sync step 1 - otherwise in-flight edits would resurrect the old content.
+ * 
+ * TOMBSTONE COMPACTION:
+ * gc: false keeps every deleted item forever. POST /compact (admin), or an
+ * alarm some time after the first edit since the last run, rebuilds the doc
+ * without tombstones and stores it as the new snapshot. Item ids stay the
+ * same, so clients keep syncing; they get a 'compacted' message and re-send
+ * sync step 1. /status reports the tombstone overhead.
+ * See tombstone-compaction.ts.
+ * 
+ * CHANGE FEED:
+ * GET /feed is a Server-Sent Events stream of document updates, connection
+ * counts and (non-private) custom messages as JSON. Events are stored with a
+ * sequence id; reconnecting consumers resume with Last-Event-ID (or ?cursor=).
+ * Update events are written with the update log flush, not one by one.
+ * Subscribing needs a token of any role (?token=, as EventSource can't set
+ * headers). Streams close when the room goes quiet so it can still hibernate.
+ * See change-feed.ts.
+ * 
+ * ROOM REGISTRY:
+ * The first connect, the last disconnect and every wake with connections
+ * are reported to the RoomRegistry (GET /rooms on the worker), with the
+ * connection count and document size. See room-registry.ts.
+ * 
+ * EDIT ATTRIBUTION:
+ * Every applied update is credited to its author (user id, name and color of
+ * the connection, or import / version-restore) with a timestamp, per Yjs item
+ * id range. Ids survive update log and tombstone compaction, so GET /blame
+ * can map the current text of the prosemirror fragment to authors and times.
+ * /blame needs a token of any role. Written with the update log flush, cleared
+ * by /clear. See edit-attribution.ts.
+ * 
+ * HIBERNATION LEDGER:
+ * Wakes, connects, closes, (sampled) messages and alarm wake-ups are written
+ * to DO storage and served at GET /hibernation-history, so hibernation shows
+ * up as data rather than console banners. See shared/hibernation-ledger.ts.
+ * 
+ * STANDARD Y-WEBSOCKET CLIENTS (?wire=y-websocket):
+ * Connections opened with ?wire=y-websocket speak plain y-protocols, so
+ * y-websocket / y-partykit providers and other third-party editors can use
+ * this room. Their awareness is binary: it is decoded into customAwareness
+ * (still no Awareness class, no timers) and re-encoded per recipient - binary
+ * for standard clients, JSON for ours, which get a synthetic numeric client
+ * id and clock on the standard side. Message 2 is auth there, so these
+ * connections get no custom messages (no handshake, hello, room-config,
+ * reset or read-only notices). They can't reset either: after a /clear their
+ * writes are dropped until they reconnect. Note that standard providers
+ * refresh their awareness every 15s, which wakes the room, and drop remote
+ * states that weren't refreshed for 30s.
+ * See awareness-wire.ts.
+ * 
+ * METRICS:
+ * GET /metrics serves OpenMetrics counters for a Prometheus scrape: messages
+ * by type, bytes in/out, broadcasts, wake-ups, persistence writes with their
+ * latency, and close codes. They are kept in DO storage, so they add up
+ * across hibernation; per-message counters are written at most every 10s
+ * (and with every flush), not per keystroke. See shared/room-metrics.ts.
+ * 
+ * LOGGING:
+ * One JSON line per record (shared/logger.ts) with room, connectionId and a
+ * correlationId per request / WebSocket event / alarm. LOG_LEVEL in
+ * wrangler.toml picks the level; per-message traces, sync steps and
+ * broadcasts are at debug.
+ * 
  * KEY INSIGHT: Even with gc: false, Y.Doc event listeners (doc.on('update')) 
  * prevent hibernation because they keep the event loop active. Solution is to 
  * remove all event listeners and handle everything reactively in onMessage().
@@ -28,196 +203,968 @@
  * - Awareness toggle ON = sends awareness = keeps awake (user action)
  */
 
-import { Server, type Connection, type ConnectionContext } from "partyserver";
+import { Server, type Connection, type ConnectionContext, type WSMessage } from "partyserver";
 import * as Y from 'yjs';
 import * as syncProtocol from 'y-protocols/sync';
-import * as awarenessProtocol from 'y-protocols/awareness';
 import * as encoding from 'lib0/encoding';
 import * as decoding from 'lib0/decoding';
+import * as buffer from 'lib0/buffer';
+import { UpdateLog, persistenceConfigFromEnv, type PersistenceEnv } from './update-log';
+import { VersionHistory } from './version-history';
+import { AuthError, adminRequestError, tokenRequestError, verifyToken, type AuthClaims } from './auth';
+import {
+  CLOSE_RATE_LIMITED,
+  checkRateLimit,
+  rateLimitConfigFromEnv,
+  type RateLimitEnv,
+  type RateLimitState
+} from './rate-limiter';
+import { CustomMessageRegistry } from './message-registry';
+import { EXPORT_FORMATS, fragmentToJSON, toHTML, toMarkdown, type ExportFormat } from './document-export';
+import {
+  IMPORT_FORMATS,
+  IMPORT_MODES,
+  ImportError,
+  buildImportUpdate,
+  htmlToJSON,
+  markdownToJSON,
+  updateToJSON,
+  type ImportFormat,
+  type ImportMode
+} from './document-import';
+import { ChangeFeed } from './change-feed';
+import { compactDoc, tombstoneStats } from './tombstone-compaction';
+import { EditAttribution } from './edit-attribution';
+import { RoomConfigConflictError, RoomConfigError, RoomConfigStore, type RoomConfigPatch } from './room-config';
+import { awarenessClientID, decodeAwarenessUpdate, encodeAwarenessUpdate } from './awareness-wire';
+import { reportRoom, type RoomEvent, type RoomRegistryEnv } from '../../shared/room-registry';
+import { HibernationLedger, type LedgerEventType } from '../../shared/hibernation-ledger';
+import { correlationId, createLogger, type Logger, type LoggerEnv } from '../../shared/logger';
+import { METRICS_CONTENT_TYPE, RoomMetrics, messageBytes, receivedMessageType } from '../../shared/room-metrics';
+import type { AttributionAuthor, AttributionOrigin } from '../../shared/edit-attribution';
+import type {
+  ClientMessageData,
+  CustomMessage,
+  CompactionNotice,
+  DirectDelivery,
+  ResetNotice,
+  RoomConfigSnapshot,
+  SavedNotice,
+  ServerMessageType
+} from '../../shared/custom-messages';
+import {
+  CLOSE_PROTOCOL_MISMATCH,
+  CLOSE_UNAUTHORIZED,
+  MESSAGE_AWARENESS,
+  MESSAGE_CUSTOM,
+  MESSAGE_QUERY_AWARENESS,
+  MESSAGE_SYNC,
+  MIN_WRITABLE_PROTOCOL_VERSION,
+  negotiateProtocol,
+  parseProtocolOffer,
+  type Capability,
+  type ProtocolAgreement,
+  type WireFormat
+} from '../../shared/protocol';
+
+
+export interface YjsPartyEnv extends RateLimitEnv, PersistenceEnv, RoomRegistryEnv, LoggerEnv {
+  // HS256 secret for connection tokens (wrangler secret put AUTH_SECRET).
+  // When unset, connections are accepted without a token - local dev only!
+  AUTH_SECRET?: string;
+}
+
+// Cloudflare limits WebSocket attachments to 2 KiB (partyserver adds its own id/server fields)
+const CONNECTION_DATA_BUDGET = 1800;
+
+// Awareness is the one client-sized part of ConnectionData ('hello' is capped by its
+// schema) - bigger states are ignored so auth, rate limits and epoch always fit
+const MAX_AWARENESS_STATE_LENGTH = 512;
+
+interface ConnectedUser {
+  userId: string | null;  // From the auth token, if any
+  name: string;
+  color: string;
+  profile_picture_url: string | null;
+}
 
-const MESSAGE_SYNC = 0;
-const MESSAGE_AWARENESS = 1;
-const MESSAGE_CUSTOM = 2; // For config, modes, etc.
+// Palette for connections that haven't sent a hello (yet)
+const DEFAULT_COLORS = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#FFA07A', '#98D8C8', '#F7DC6F', '#BB8FCE', '#85C1E2'];
 
-interface CustomMessage {
-  type: 'config' | 'mode' | 'ping' | 'pong' | 'connection-count';
-  data?: any;
-  timestamp?: string;
+// Per-connection data - stored with connection.setState() so it survives hibernation
+interface ConnectionData {
+  auth: AuthClaims | null;
+  readOnly: boolean;
+  user?: ConnectedUser;
+  awareness?: any;  // Last awareness state (undefined = never sent, null = cleared)
+  awarenessSeenAt?: number;
+  awarenessClientID?: number;  // y-protocols client id / clock of that state
+  awarenessClock?: number;
+  rateLimit?: RateLimitState;
+  resyncAt?: number;  // A document update was dropped - send sync step 1 once limits allow
+  epoch?: number;  // Reset epoch the client's doc belongs to
+  protocol?: { version: number; capabilities: readonly Capability[] };
+  wire?: WireFormat;  // undefined = 'custom'
 }
 
-export class YjsPartyServer extends Server {
+interface AwarenessEntry {
+  state: any;
+  lastSeen: number;
+  clientID: number;  // As seen by standard y-websocket clients
+  clock: number;
+}
+
+// Awareness states not refreshed for this long are removed by the alarm
+const AWARENESS_TIMEOUT_MS = 60_000;
+
+type ServerMessage = CustomMessage<ServerMessageType>;
+
+// Number of logged updates before they are folded back into the snapshot
+const UPDATE_LOG_COMPACT_THRESHOLD = 100;
+
+// Storage key of the reset epoch (bumped by every /clear)
+const RESET_EPOCH_KEY = 'yjs-reset-epoch';
+
+// Tombstone compaction runs this long after the first edit since the last run...
+const TOMBSTONE_COMPACTION_DELAY_MS = 30 * 60 * 1000;
+// ...if at least this much (bytes and share of the doc) would be saved
+const TOMBSTONE_MIN_OVERHEAD_BYTES = 16 * 1024;
+const TOMBSTONE_MIN_OVERHEAD_RATIO = 0.2;
+const COMPACTION_DUE_KEY = 'yjs-compaction-due';
+
+// Custom message types that are not published on the change feed
+const FEED_PRIVATE_MESSAGE_TYPES = new Set(['direct', 'ping']);
+
+// Largest accepted /import body
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+// Tiptap's Collaboration extension stores the document in this XmlFragment
+const PROSEMIRROR_FRAGMENT = 'prosemirror';
+
+/**
+ * Stable palette color for a connection id
+ */
+function defaultColor(id: string): string {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return DEFAULT_COLORS[Math.abs(hash) % DEFAULT_COLORS.length];
+}
+
+/**
+ * True if an update carries neither new structs nor deletions
+ */
+function isEmptyUpdate(update: Uint8Array): boolean {
+  const { structs, ds } = Y.decodeUpdate(update);
+  return structs.length === 0 && ds.clients.size === 0;
+}
+
+/**
+ * Extract the raw Yjs update from a [MESSAGE_SYNC, step2 | update, update] message
+ */
+function readSyncUpdate(message: Uint8Array): Uint8Array {
+  const decoder = decoding.createDecoder(message);
+  decoding.readVarUint(decoder); // MESSAGE_SYNC
+  decoding.readVarUint(decoder); // sync message type
+  return decoding.readVarUint8Array(decoder);
+}
+
+export class YjsPartyServer extends Server<YjsPartyEnv> {
   static options = {
     hibernate: true  // ✅ Hibernation works because we disable Yjs GC!
   };
 
   private doc: Y.Doc | null = null;
-  private awareness: awarenessProtocol.Awareness | null = null;
   private instanceCreatedAt = Date.now();
   private persistenceKey = 'yjs-document-state';
+  private log = createLogger(this.env, { component: 'yjs-party' });
+  // Logger of the event a connection is currently being handled for (see beginEvent)
+  private connectionLogs = new WeakMap<Connection, Logger>();
+  private updateLog = new UpdateLog(this.ctx.storage, {
+    snapshotKey: this.persistenceKey,
+    compactThreshold: UPDATE_LOG_COMPACT_THRESHOLD,
+    log: this.log.child({ component: 'update-log' })
+  });
+  private versions = new VersionHistory(this.ctx.storage, { log: this.log.child({ component: 'versions' }) });
+  private roomConfig = new RoomConfigStore(this.ctx.storage);
+  private feed = new ChangeFeed(this.ctx.storage, { log: this.log.child({ component: 'change-feed' }) });
+  private attribution = new EditAttribution(this.ctx.storage, { log: this.log.child({ component: 'attribution' }) });
+  private ledger = new HibernationLedger(this.ctx.storage, 'yjs-party', {
+    log: this.log.child({ component: 'hibernation-ledger' })
+  });
+  private metrics = new RoomMetrics(this.ctx.storage, 'yjs-party', {
+    log: this.log.child({ component: 'room-metrics' })
+  });
+  private resetEpoch = 0;
+  private compactionDueAt: number | null = null;
+  private rateLimitConfig = rateLimitConfigFromEnv(this.env);
+  private persistenceConfig = persistenceConfigFromEnv(this.env);
+  private flushDueAt: number | null = null;
+  // State vector of what is in storage (everything applied minus the buffer)
+  private savedStateVector: Uint8Array | null = null;
+  private lastBufferedAt = 0;
+
+  // Custom message handlers by type - data is validated before a handler runs
+  protected customMessages = new CustomMessageRegistry()
+    .register('hello', (connection, data) => this.handleHello(connection, data))
+    .register('ping', (connection) => this.handlePing(connection))
+    .register('direct', (connection, data) => this.handleDirect(connection, data))
+    .register('config', (connection, data, msg) => this.handleRoomConfigMessage(connection, { config: data }, msg))
+    .register('mode', (connection, data, msg) => this.handleRoomConfigMessage(connection, { mode: data }, msg));
   private lastMessageAt = 0;
   private lastActivityAt = 0;
   
   
-  // Custom awareness - just a Map, no timers, hibernation-safe
-  private customAwareness = new Map<string, any>();
+  // Custom awareness - just a Map, no timers, hibernation-safe (expiry runs on alarms)
+  private customAwareness = new Map<string, AwarenessEntry>();
   
   // Connected users with their metadata (name, color, profile_picture_url)
-  private connectedUsers = new Map<string, { name: string; color: string; profile_picture_url: string }>();
+  private connectedUsers = new Map<string, ConnectedUser>();
 
   async onStart() {
     const now = Date.now();
     const timeSinceCreation = now - this.instanceCreatedAt;
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    if (timeSinceCreation < 100) {
-      console.log('🔥🔥🔥 [HIBERNATION WAKE-UP DETECTED] 🔥🔥🔥');
-      console.log('[YJS-PARTY] Instance created at:', new Date(this.instanceCreatedAt).toISOString());
-      console.log('[YJS-PARTY] Current time:', new Date(now).toISOString());
-      console.log('[YJS-PARTY] Time since instance creation:', timeSinceCreation, 'ms');
-      console.log('[YJS-PARTY] ✅ PROOF: Instance just created - DO was hibernated and woke up!');
-    } else {
-      console.log('[YJS-PARTY] 🆕 FRESH INSTANCE - First startup (not hibernation wake)');
-      console.log('[YJS-PARTY] Time since instance creation:', timeSinceCreation, 'ms');
-    }
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    
-    console.log('[YJS-PARTY] Creating Y.Doc with gc: false for hibernation compatibility');
-    
+    // Existing connections mean we were hibernating (a brand-new connection isn't accepted yet)
+    const [firstConnection] = this.getConnections();
+    const log = this.eventLog(firstConnection?.server);
+    this.ctx.waitUntil(this.metrics.wake(firstConnection ? 'hibernation' : 'cold_start'));
+
     // CRITICAL: gc: false prevents background timers that break hibernation!
     this.doc = new Y.Doc({ gc: false });
     
     // DON'T use y-protocols Awareness - it has internal timers that prevent hibernation
-    // Use custom Map-based awareness instead
-    this.awareness = null;
-    console.log('[YJS-PARTY] ✅ Using custom Map-based awareness (hibernation-safe)');
-
-    // Load persisted state from Durable Object storage
-    const persistedState = await this.ctx.storage.get<Uint8Array>(this.persistenceKey);
-    if (persistedState) {
-      console.log('[YJS-PARTY] Loading persisted document state:', persistedState.length, 'bytes');
-      Y.applyUpdate(this.doc, persistedState);
-    } else {
-      console.log('[YJS-PARTY] No persisted state found, starting fresh');
+    // Use custom Map-based awareness instead (customAwareness)
+
+    // Load persisted state from Durable Object storage (snapshot + update log)
+    const persistedBytes = await this.updateLog.load(this.doc);
+    this.savedStateVector = Y.encodeStateVector(this.doc);
+
+    await this.feed.load();
+    await this.attribution.load();
+    this.resetEpoch = (await this.ctx.storage.get<number>(RESET_EPOCH_KEY)) ?? 0;
+    this.compactionDueAt = (await this.ctx.storage.get<number>(COMPACTION_DUE_KEY)) ?? null;
+
+    // Instance memory is gone after hibernation - rebuild presence from connection attachments
+    this.restorePresence(log);
+
+    if (firstConnection) {
+      this.reportToRegistry('wake', firstConnection.server, log);
     }
 
     // DON'T register event listeners - they prevent hibernation!
     // Instead, we'll handle updates reactively in onMessage()
     // This allows the DO to hibernate when idle
 
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('[YJS-PARTY] ✅ Server initialized - HIBERNATION READY');
-    console.log('[YJS-PARTY] Configuration:');
-    console.log('[YJS-PARTY]   - Y.Doc GC: DISABLED (gc: false) ✅');
-    console.log('[YJS-PARTY]   - Event listeners: REMOVED (no persistent listeners) ✅');
-    console.log('[YJS-PARTY]   - Message-driven architecture ✅');
-    console.log('[YJS-PARTY]   - Awareness: CUSTOM MAP-BASED (hibernation-safe) ✅');
-    console.log('[YJS-PARTY]   - No background timers ✅');
-    console.log('[YJS-PARTY]   - Hibernation: ENABLED ✅');
-    console.log('[YJS-PARTY] Will hibernate after 30-60s of inactivity');
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    log.info('start', {
+      instanceCreatedAt: new Date(this.instanceCreatedAt).toISOString(),
+      instanceAgeMs: timeSinceCreation,
+      // Started right before handling an event = the DO was hibernated and woke up
+      hibernationWake: timeSinceCreation < 100,
+      connections: Array.from(this.getConnections()).length,
+      persistedBytes,
+      resetEpoch: this.resetEpoch
+    });
+    log.debug('start.config', {
+      gc: false,
+      eventListeners: false,
+      awareness: 'custom-map',
+      backgroundTimers: false,
+      hibernate: true
+    });
   }
 
-  private async persistDocument() {
+  /**
+   * Buffer an update for the next flush, or write it right away in
+   * write-through mode (and when `writeThrough` is set by the caller).
+   */
+  private async persistUpdate(update: Uint8Array, log: Logger, writeThrough = false) {
     if (!this.doc) return;
+    const now = Date.now();
     
-    const state = Y.encodeStateAsUpdate(this.doc);
-    await this.ctx.storage.put(this.persistenceKey, state);
-    console.log('[YJS-PARTY] Document persisted:', state.length, 'bytes');
+    // Only the incremental update is stored - compaction happens inside the log
+    this.updateLog.buffer(update, now);
+    this.lastBufferedAt = now;
+    if (writeThrough || this.persistenceConfig.mode === 'write-through') {
+      await this.flushUpdates('write-through', log);
+    } else if (this.updateLog.pendingBytes >= this.persistenceConfig.maxBufferBytes) {
+      await this.flushUpdates('buffer full', log);
+    } else if (this.flushDueAt === null) {
+      this.flushDueAt = now + this.persistenceConfig.flushDelayMs;
+      await this.scheduleAlarm(this.flushDueAt);
+    }
+
+    await this.versions.maybeCreateAuto(this.doc);
+    await this.scheduleCompaction(now);
+  }
+
+  private async flushUpdates(reason: string, log: Logger) {
+    this.flushDueAt = null;
+    if (!this.doc) return;
+    if (this.updateLog.pendingUpdates === 0) {
+      // Attribution and feed events buffer on their own - write whatever they still hold
+      await this.attribution.flush();
+      await this.feed.flush();
+      return;
+    }
+    log.debug('persistence.flush', { reason, pendingUpdates: this.updateLog.pendingUpdates });
+    const doc = this.doc;
+    // Every applied update is in the buffer by now, so this is what the flush makes durable
+    const stateVector = Y.encodeStateVector(doc);
+    await this.metrics.timePersistence('flush', () => this.updateLog.flush(doc));
+    await this.markSaved(stateVector);
+  }
+
+  /**
+   * The document is in storage up to `stateVector` (flush, compaction or
+   * clear): write the attribution and feed events of those updates too, and
+   * tell capable clients with a 'saved' message.
+   */
+  private async markSaved(stateVector: Uint8Array) {
+    await this.attribution.flush();
+    await this.feed.flush();
+    this.savedStateVector = stateVector;
+    this.broadcastToCapable('saved', this.savedMessage());
+  }
+
+  /**
+   * Alarm-time flush check. Keeps waiting while edits are still coming in,
+   * but never longer than maxDelayMs after the first buffered update.
+   */
+  private async flushIfQuiet(now: number, log: Logger) {
+    if (this.flushDueAt === null || this.flushDueAt > now) return;
+
+    const quietAt = this.lastBufferedAt + this.persistenceConfig.flushDelayMs;
+    const deadline = (this.updateLog.pendingSince ?? now) + this.persistenceConfig.maxDelayMs;
+    if (quietAt > now && deadline > now) {
+      this.flushDueAt = Math.min(quietAt, deadline);
+      return;
+    }
+    await this.flushUpdates('alarm', log);
+  }
+
+  /**
+   * Apply an update that originates on the server (restore, etc.) exactly like
+   * a client edit: apply, broadcast to everyone, persist.
+   */
+  private async applyServerUpdate(update: Uint8Array, origin: Exclude<AttributionOrigin, 'client'>, log: Logger) {
+    if (!this.doc) return;
+
+    Y.applyUpdate(this.doc, update, origin);
+    this.attribution.record(update, { userId: null, name: origin, color: null, origin });
+
+    this.broadcastUpdate(update);
+    this.feed.recordUpdate(update, origin);
+    log.debug('update.server', { origin, bytes: update.length });
+
+    // The HTTP caller gets its response once this is on disk
+    await this.persistUpdate(update, log, true);
+  }
+
+  private broadcastUpdate(update: Uint8Array, without?: string[]) {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    this.broadcast(encoding.toUint8Array(encoder), without);
+  }
+
+  // Every partyserver broadcast is counted for /metrics
+  override broadcast(msg: string | ArrayBuffer | ArrayBufferView, without?: string[]) {
+    let recipients = 0;
+    for (const conn of this.getConnections()) {
+      if (!without?.includes(conn.id)) recipients++;
+    }
+    super.broadcast(msg, without);
+    this.metrics.broadcast();
+    this.ctx.waitUntil(this.metrics.sent(messageBytes(msg), recipients));
+  }
+
+  private send(connection: Connection, bytes: Uint8Array) {
+    connection.send(bytes);
+    this.ctx.waitUntil(this.metrics.sent(bytes.length));
   }
 
   async onConnect(connection: Connection, ctx: ConnectionContext) {
     const now = Date.now();
     const timeSinceCreation = now - this.instanceCreatedAt;
-    const timeSinceLastMessage = this.lastMessageAt > 0 ? now - this.lastMessageAt : 0;
     const timeSinceLastActivity = this.lastActivityAt > 0 ? now - this.lastActivityAt : 0;
+    const log = this.beginEvent(connection, ctx.request);
+
+    log.debug('connect.start', {
+      instanceAgeMs: timeSinceCreation,
+      msSinceLastActivity: timeSinceLastActivity,
+      // Fresh instance = connecting to a room that was hibernating
+      hibernationWake: timeSinceCreation < 1000
+    });
+    this.lastActivityAt = now;
     
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('[YJS-PARTY] Client connected:', connection.id);
-    console.log('[YJS-PARTY] Time since instance creation:', timeSinceCreation, 'ms');
-    
-    if (timeSinceCreation < 1000) {
-      console.log('[YJS-PARTY] 🔥 HIBERNATION WAKE - Connecting to fresh instance after hibernation!');
-      if (timeSinceLastActivity > 0) {
-        console.log('[YJS-PARTY] Time since last activity:', timeSinceLastActivity, 'ms');
-        console.log('[YJS-PARTY] ✅ CONFIRMED: DO was hibernated and woke up for this connection');
-      }
+    // Verify the token before anything else - rejected connections get nothing
+    if (!(await this.authenticate(connection, ctx))) {
+      return;
+    }
+    if (new URL(ctx.request.url).searchParams.get('wire') === 'y-websocket') {
+      // Standard provider - no handshake, it would read our 'protocol' message as auth
+      this.updateConnectionData(connection, { wire: 'y-websocket' });
+      log.debug('connect.standard-wire');
+    } else if (!this.negotiateProtocol(connection, ctx)) {
+      return;
     }
-    
-    this.lastActivityAt = now;
-    console.log('[YJS-PARTY] Time since instance creation:', timeSinceCreation, 'ms');
     
     if (!this.doc) {
-      console.error('[YJS-PARTY] ERROR: Doc not initialized!');
+      log.error('doc-not-initialized');
       return;
     }
 
-    // Check if we need to rebuild connectedUsers after hibernation
-    const existingConnections = Array.from(this.getConnections());
-    if (existingConnections.length > this.connectedUsers.size) {
-      console.log('[YJS-PARTY] 🔄 Rebuilding user map after hibernation wake-up');
-      console.log('[YJS-PARTY] Active connections:', existingConnections.length, 'but only', this.connectedUsers.size, 'users in map');
-      
-      // Rebuild user data for existing connections that aren't in the map
-      const colors = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#FFA07A', '#98D8C8', '#F7DC6F', '#BB8FCE', '#85C1E2'];
-      const names = ['Alice', 'Bob', 'Charlie', 'Diana', 'Eve', 'Frank', 'Grace', 'Henry'];
-      
-      existingConnections.forEach((conn, index) => {
-        if (!this.connectedUsers.has(conn.id)) {
-          const userData = {
-            name: names[index % names.length],
-            color: colors[index % colors.length],
-            profile_picture_url: `https://i.pravatar.cc/150?u=${conn.id}`
-          };
-          this.connectedUsers.set(conn.id, userData);
-          console.log('[YJS-PARTY] Restored user data for:', conn.id, userData);
-        }
-      });
-    }
-
-    // Generate dummy user data for this NEW connection
-    const colors = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#FFA07A', '#98D8C8', '#F7DC6F', '#BB8FCE', '#85C1E2'];
-    const names = ['Alice', 'Bob', 'Charlie', 'Diana', 'Eve', 'Frank', 'Grace', 'Henry'];
-    const connectionIndex = existingConnections.length - 1;
-    
-    const userData = {
-      name: names[connectionIndex % names.length],
-      color: colors[connectionIndex % colors.length],
-      profile_picture_url: `https://i.pravatar.cc/150?u=${connection.id}`
+    // Placeholder identity until the client sends 'hello' (token name if we have one)
+    const auth = this.getConnectionData(connection)?.auth ?? null;
+    const userData: ConnectedUser = {
+      userId: auth?.userId ?? null,
+      name: auth?.name ?? 'Anonymous',
+      color: defaultColor(connection.id),
+      profile_picture_url: null
     };
     
+    // Store with the socket so the same identity comes back after hibernation
+    this.updateConnectionData(connection, { user: userData, epoch: this.resetEpoch });
     this.connectedUsers.set(connection.id, userData);
-    console.log('[YJS-PARTY] Created user data for connection:', connection.id, userData);
+    log.debug('connect.placeholder-user', { user: userData });
+
+    // Before sync step 1: a provider with a local copy from before a reset must drop it first
+    if (this.supports(connection, 'saved')) {
+      this.sendCustomMessage(connection, this.savedMessage());
+    }
 
     // Send full state to new client (Yjs Sync Step 1)
     const encoder = encoding.createEncoder();
     encoding.writeVarUint(encoder, MESSAGE_SYNC);
     syncProtocol.writeSyncStep1(encoder, this.doc);
-    connection.send(encoding.toUint8Array(encoder));
-    
-    console.log('[YJS-PARTY] Sent sync step 1 to client');
+    this.send(connection, encoding.toUint8Array(encoder));
+    log.debug('sync.step1-sent');
+
+    // Let viewers know up front so the client can lock its editor
+    if (this.getConnectionData(connection)?.readOnly) {
+      const tooOld = (this.getConnectionData(connection)?.protocol?.version ?? 0) < MIN_WRITABLE_PROTOCOL_VERSION;
+      this.sendCustomMessage(connection, {
+        type: 'read-only',
+        data: { readOnly: true, reason: tooOld ? 'Client is too old to edit - reload the page' : 'Connected as viewer' },
+        timestamp: new Date().toISOString()
+      });
+      log.debug('connect.read-only', { tooOld });
+    }
+
+    // Current config/mode - whatever was set before this client joined
+    if (this.supports(connection, 'room-config')) {
+      this.sendCustomMessage(connection, {
+        type: 'room-config',
+        data: await this.roomConfig.get(),
+        timestamp: new Date().toISOString()
+      });
+    }
 
     // Send existing awareness states to new client (so they see other users' cursors)
     if (this.customAwareness.size > 0) {
-      console.log('[YJS-PARTY] Sending existing awareness states to new client:', this.customAwareness.size);
-      this.customAwareness.forEach((state, clientId) => {
-        const awarenessEncoder = encoding.createEncoder();
-        encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
-        encoding.writeVarString(awarenessEncoder, JSON.stringify({
-          clientId,
-          state
-        }));
-        connection.send(encoding.toUint8Array(awarenessEncoder));
-      });
+      log.debug('awareness.sent-existing', { states: this.customAwareness.size });
+      this.sendAwareness(connection, Array.from(this.customAwareness));
     }
     
-    console.log('[YJS-PARTY] Connection count:', Array.from(this.getConnections()).length);
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    
     // Broadcast connection count to all clients
-    this.broadcastConnectionCount('connect');
+    this.broadcastConnectionCount('connect', log);
+
+    const connectionCount = Array.from(this.getConnections()).length;
+    const data = this.getConnectionData(connection);
+    log.info('connect', {
+      connections: connectionCount,
+      userId: data?.auth?.userId ?? null,
+      readOnly: data?.readOnly ?? false,
+      wire: data?.wire ?? 'custom',
+      protocolVersion: data?.protocol?.version ?? null
+    });
+    if (connectionCount === 1) {
+      this.reportToRegistry('connect', this.name, log);
+    }
+    this.ctx.waitUntil(this.ledger.record('connect', 'websocket', connectionCount, { connectionId: connection.id }));
+  }
+
+  /**
+   * Verify the connection token and store its claims on the connection.
+   * Returns false (and closes the connection) if the token is missing or invalid.
+   */
+  private async authenticate(connection: Connection, ctx: ConnectionContext): Promise<boolean> {
+    const secret = this.env.AUTH_SECRET;
+    const params = new URL(ctx.request.url).searchParams;
+    // The query flag can only downgrade a connection to read-only, never upgrade it
+    const readOnlyFlag = params.get('readonly') === '1' || params.get('readonly') === 'true';
+    const log = this.connectionLog(connection);
+
+    if (!secret) {
+      log.warn('auth.disabled', { reason: 'AUTH_SECRET not set - accepting unauthenticated connection' });
+      connection.setState({ auth: null, readOnly: readOnlyFlag } satisfies ConnectionData);
+      return true;
+    }
+
+    const token = params.get('token');
+    try {
+      if (!token) {
+        throw new AuthError('Missing token');
+      }
+      const auth = await verifyToken(token, secret);
+      connection.setState({ auth, readOnly: readOnlyFlag || auth.role === 'viewer' } satisfies ConnectionData);
+      log.debug('auth.ok', { userId: auth.userId, role: auth.role });
+      return true;
+    } catch (e) {
+      const reason = e instanceof AuthError ? e.message : 'Token verification failed';
+      log.warn('auth.rejected', { reason });
+      connection.close(CLOSE_UNAUTHORIZED, reason);
+      return false;
+    }
+  }
+
+  /**
+   * Agree on a protocol version with the client's offer. Returns false (and
+   * closes the connection) if there is none; otherwise tells the client what
+   * was agreed before it gets anything else.
+   */
+  private negotiateProtocol(connection: Connection, ctx: ConnectionContext): boolean {
+    const offer = parseProtocolOffer(new URL(ctx.request.url).searchParams);
+    const result = negotiateProtocol(offer);
+    if (!result.ok) {
+      this.connectionLog(connection).warn('protocol.mismatch', { reason: result.reason, offer });
+      connection.close(CLOSE_PROTOCOL_MISMATCH, result.reason);
+      return false;
+    }
+
+    const { ok: _ok, ...agreement } = result;
+    const data = this.getConnectionData(connection);
+    this.updateConnectionData(connection, {
+      protocol: { version: agreement.version, capabilities: agreement.capabilities },
+      readOnly: (data?.readOnly ?? false) || agreement.readOnly
+    });
+    this.sendCustomMessage(connection, {
+      type: 'protocol',
+      data: agreement satisfies ProtocolAgreement,
+      timestamp: new Date().toISOString()
+    });
+    this.connectionLog(connection).debug('protocol.agreed', {
+      version: agreement.version,
+      legacyClient: !offer,
+      readOnly: agreement.readOnly
+    });
+    return true;
+  }
+
+  private isStandardWire(connection: Connection): boolean {
+    return this.getConnectionData(connection)?.wire === 'y-websocket';
+  }
+
+  /**
+   * Tell the room registry about this room (doesn't hold up the caller).
+   * `name` comes from a connection where this.name may not be set yet (wake).
+   */
+  private reportToRegistry(event: RoomEvent, name: string, log: Logger) {
+    this.ctx.waitUntil(reportRoom(this.env.ROOM_REGISTRY, {
+      kind: 'yjs-party',
+      name,
+      event,
+      connections: Array.from(this.getConnections()).length,
+      docSize: this.doc ? Y.encodeStateAsUpdate(this.doc).length : null
+    }, log));
+  }
+
+  /**
+   * Logger for an event that isn't tied to one connection (start, alarm,
+   * HTTP request). `room` is passed in because this.name isn't set on an
+   * alarm wake.
+   */
+  private eventLog(room: string | undefined, request?: Request): Logger {
+    return this.log.child({ room: room ?? null, correlationId: correlationId(request) });
+  }
+
+  /**
+   * Start handling a WebSocket event: a fresh correlationId that the helpers
+   * below pick up through connectionLog() for the rest of the event.
+   */
+  private beginEvent(connection: Connection, request?: Request): Logger {
+    const log = this.eventLog(connection.server, request).child({ connectionId: connection.id });
+    this.connectionLogs.set(connection, log);
+    return log;
+  }
+
+  private connectionLog(connection: Connection): Logger {
+    return this.connectionLogs.get(connection) ?? this.beginEvent(connection);
+  }
+
+  private supports(connection: Connection, capability: Capability): boolean {
+    return this.getConnectionData(connection)?.protocol?.capabilities.includes(capability) ?? false;
+  }
+
+  /**
+   * Send a custom message to every connection that understands it.
+   */
+  private broadcastToCapable(capability: Capability, msg: ServerMessage) {
+    for (const conn of this.getConnections()) {
+      if (this.supports(conn, capability)) {
+        this.sendCustomMessage(conn, msg);
+      }
+    }
+  }
+
+  private getConnectionData(connection: Connection): ConnectionData | null {
+    return (connection as Connection<ConnectionData>).state;
+  }
+
+  private updateConnectionData(connection: Connection, patch: Partial<ConnectionData>) {
+    let next = { ...(this.getConnectionData(connection) as ConnectionData), ...patch };
+    if (JSON.stringify(next).length > CONNECTION_DATA_BUDGET && next.awareness != null) {
+      // Give up the stored awareness state (it's lost on hibernation) before anything else
+      this.connectionLog(connection).warn('connection-data.awareness-dropped', { keys: Object.keys(patch) });
+      next = { ...next, awareness: undefined };
+    }
+    if (JSON.stringify(next).length > CONNECTION_DATA_BUDGET) {
+      this.connectionLog(connection).warn('connection-data.too-large', { keys: Object.keys(patch) });
+      return;
+    }
+    connection.setState(next);
+  }
+
+  /**
+   * Who an edit from this connection is credited to (see edit-attribution.ts)
+   */
+  private attributionAuthor(connection: Connection): AttributionAuthor {
+    const user = this.connectedUsers.get(connection.id);
+    return {
+      userId: user?.userId ?? this.getConnectionData(connection)?.auth?.userId ?? null,
+      name: user?.name ?? 'Anonymous',
+      color: user?.color ?? defaultColor(connection.id),
+      origin: 'client'
+    };
+  }
+
+  /**
+   * Rebuild connectedUsers and customAwareness from the connection attachments.
+   */
+  private restorePresence(log: Logger) {
+    this.connectedUsers.clear();
+    this.customAwareness.clear();
+
+    for (const conn of this.getConnections()) {
+      const data = this.getConnectionData(conn);
+      if (data?.user) {
+        this.connectedUsers.set(conn.id, data.user);
+      }
+      if (data?.awareness !== undefined) {
+        this.customAwareness.set(conn.id, {
+          state: data.awareness,
+          lastSeen: data.awarenessSeenAt ?? Date.now(),
+          clientID: data.awarenessClientID ?? awarenessClientID(conn.id),
+          clock: data.awarenessClock ?? 0
+        });
+      }
+    }
+
+    if (this.connectedUsers.size > 0 || this.customAwareness.size > 0) {
+      log.info('presence.restored', { users: this.connectedUsers.size, awarenessStates: this.customAwareness.size });
+    }
+  }
+
+  /**
+   * Make sure an alarm fires no later than `at`. Alarms wake a hibernated DO
+   * but don't keep it awake in between.
+   */
+  private async scheduleAlarm(at: number) {
+    const current = await this.ctx.storage.getAlarm();
+    if (current === null || at < current) {
+      await this.ctx.storage.setAlarm(at);
+    }
+  }
+
+  async onAlarm() {
+    const now = Date.now();
+    const [firstConnection] = this.getConnections();
+    const log = this.eventLog(firstConnection?.server);
+    log.debug('alarm', { instanceAgeMs: now - this.instanceCreatedAt });
+    this.ctx.waitUntil(this.ledger.recordWake('alarm', Array.from(this.getConnections()).length));
+
+    await this.flushIfQuiet(now, log);
+    const nextAwarenessCheck = this.expireStaleAwareness(now, log);
+    const nextResync = this.resyncDroppedUpdates(now, log);
+    if (this.compactionDueAt !== null && this.compactionDueAt <= now) {
+      await this.compactTombstones('alarm', log);
+    }
+
+    const pending = [this.flushDueAt, nextAwarenessCheck, nextResync, this.compactionDueAt].filter((at): at is number => at !== null);
+    if (pending.length > 0) {
+      await this.ctx.storage.setAlarm(Math.min(...pending));
+    } else {
+      // No buffered updates, live awareness states, resyncs or pending compaction - free to hibernate
+      log.debug('alarm.none-scheduled');
+    }
+  }
+
+  /**
+   * Plan a compaction run after edits - once per edit burst, not per update.
+   */
+  private async scheduleCompaction(now: number) {
+    if (this.compactionDueAt !== null) return;
+    this.compactionDueAt = now + TOMBSTONE_COMPACTION_DELAY_MS;
+    await this.ctx.storage.put(COMPACTION_DUE_KEY, this.compactionDueAt);
+    await this.scheduleAlarm(this.compactionDueAt);
+  }
+
+  /**
+   * Replace the doc with a tombstone-free rebuild and store it as the new
+   * snapshot. Alarm runs skip documents with little to gain.
+   */
+  private async compactTombstones(trigger: CompactionNotice['trigger'], log: Logger): Promise<{ compacted: boolean; notice?: CompactionNotice; reason?: string }> {
+    this.compactionDueAt = null;
+    await this.ctx.storage.delete(COMPACTION_DUE_KEY);
+    if (!this.doc) {
+      return { compacted: false, reason: 'Doc not initialized' };
+    }
+
+    const stats = tombstoneStats(this.doc);
+    const worthIt = stats.overheadBytes >= TOMBSTONE_MIN_OVERHEAD_BYTES && stats.overheadRatio >= TOMBSTONE_MIN_OVERHEAD_RATIO;
+    if (stats.overheadBytes === 0 || (trigger === 'alarm' && !worthIt)) {
+      log.debug('compaction.skipped', { trigger, overheadBytes: stats.overheadBytes });
+      return { compacted: false, reason: `Tombstone overhead too small (${stats.overheadBytes} bytes)` };
+    }
+
+    // Swap synchronously so nothing is applied to the old doc while the snapshot is written
+    const previous = this.doc;
+    const { doc, state } = compactDoc(previous);
+    const stateVector = Y.encodeStateVector(doc);
+    this.doc = doc;
+    previous.destroy();
+    await this.metrics.timePersistence('compaction', () => this.updateLog.compact(doc));
+    // The snapshot replaced the pending buffer - the next flush will have nothing to write
+    await this.markSaved(stateVector);
+
+    const notice: CompactionNotice = {
+      beforeBytes: stats.docBytes,
+      afterBytes: state.length,
+      deletedLength: stats.deletedLength,
+      trigger
+    };
+    log.info('compaction.done', { ...notice });
+    this.broadcastToCapable('compaction', { type: 'compacted', data: notice, timestamp: new Date().toISOString() });
+    return { compacted: true, notice };
+  }
+
+  /**
+   * Remove awareness entries whose connection is gone or that weren't refreshed
+   * within AWARENESS_TIMEOUT_MS. Returns when the next check is due (null = none).
+   */
+  private expireStaleAwareness(now: number, log: Logger): number | null {
+    const openIds = new Set(Array.from(this.getConnections(), conn => conn.id));
+    let nextCheck: number | null = null;
+
+    for (const [clientId, entry] of this.customAwareness) {
+      const expired = now - entry.lastSeen >= AWARENESS_TIMEOUT_MS;
+      if (!openIds.has(clientId) || expired) {
+        this.customAwareness.delete(clientId);
+        const conn = this.getConnection(clientId);
+        if (conn) {
+          this.updateConnectionData(conn, { awareness: null, awarenessSeenAt: now, awarenessClock: entry.clock + 1 });
+        }
+        if (entry.state !== null) {
+          this.broadcastAwarenessRemoval(clientId, entry);
+        }
+        log.info('awareness.expired', { connectionId: clientId, lastSeenMsAgo: now - entry.lastSeen });
+      } else if (entry.state !== null) {
+        const due = entry.lastSeen + AWARENESS_TIMEOUT_MS;
+        nextCheck = nextCheck === null ? due : Math.min(nextCheck, due);
+      }
+    }
+
+    return nextCheck;
+  }
+
+  /**
+   * Refresh lastSeen for a connection's awareness entry (any message counts as a sign of life).
+   */
+  private touchAwareness(connection: Connection, now: number) {
+    const entry = this.customAwareness.get(connection.id);
+    if (!entry) return;
+    entry.lastSeen = now;
+    this.updateConnectionData(connection, { awarenessSeenAt: now });
+  }
+
+  private broadcastAwarenessRemoval(clientId: string, entry: AwarenessEntry) {
+    // null = removed; standard clients need a newer clock to accept it
+    this.broadcastAwareness(clientId, { ...entry, state: null, clock: entry.clock + 1 });
+  }
+
+  private broadcastAwareness(clientId: string, entry: AwarenessEntry, without?: string[]) {
+    for (const conn of this.getConnections()) {
+      if (!without?.includes(conn.id)) {
+        this.sendAwareness(conn, [[clientId, entry]]);
+      }
+    }
+    // Bytes were counted per recipient by sendAwareness
+    this.ctx.waitUntil(this.metrics.broadcast());
+  }
+
+  /**
+   * Send awareness states in the recipient's wire format: one binary
+   * y-protocols update for standard clients, one JSON message per state for ours.
+   */
+  private sendAwareness(connection: Connection, entries: Array<[string, AwarenessEntry]>) {
+    if (this.isStandardWire(connection)) {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(encoder, encodeAwarenessUpdate(
+        entries.map(([, { clientID, clock, state }]) => ({ clientID, clock, state }))
+      ));
+      this.send(connection, encoding.toUint8Array(encoder));
+      return;
+    }
+
+    for (const [clientId, { state }] of entries) {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+      encoding.writeVarString(encoder, JSON.stringify({ clientId, state }));
+      this.send(connection, encoding.toUint8Array(encoder));
+    }
+  }
+
+  /**
+   * Apply the per-connection limits. Returns false if the message must be dropped.
+   */
+  private enforceRateLimit(connection: Connection, rawMessage: WSMessage, now: number): boolean {
+    let messageBytes: number;
+    let updateBytes = 0;
+    if (typeof rawMessage === 'string') {
+      messageBytes = rawMessage.length;
+    } else {
+      const bytes = rawMessage instanceof ArrayBuffer
+        ? new Uint8Array(rawMessage)
+        : new Uint8Array(rawMessage.buffer, rawMessage.byteOffset, rawMessage.byteLength);
+      messageBytes = bytes.length;
+      // [MESSAGE_SYNC, step2 | update, ...] counts against the update budget
+      if (bytes[0] === MESSAGE_SYNC && bytes[1] !== syncProtocol.messageYjsSyncStep1) {
+        updateBytes = bytes.length;
+      }
+    }
+
+    const { state, verdict } = checkRateLimit(
+      this.rateLimitConfig,
+      this.getConnectionData(connection)?.rateLimit,
+      now,
+      messageBytes,
+      updateBytes
+    );
+    this.updateConnectionData(connection, { rateLimit: state });
+
+    if (verdict.ok) {
+      return true;
+    }
+
+    const log = this.connectionLog(connection);
+    // The client applied this update already and won't resend it - ask for it once allowed
+    if (updateBytes > 0 && verdict.retryAt !== null && !verdict.close && !this.getConnectionData(connection)?.readOnly) {
+      const resyncAt = Math.max(verdict.retryAt, this.getConnectionData(connection)?.resyncAt ?? 0);
+      this.updateConnectionData(connection, { resyncAt });
+      this.ctx.waitUntil(this.scheduleAlarm(resyncAt));
+      log.debug('rate-limit.resync-scheduled', { resyncAt: new Date(resyncAt).toISOString() });
+    }
+    if (verdict.close) {
+      log.warn('rate-limit.close', { reason: verdict.reason });
+      connection.close(CLOSE_RATE_LIMITED, verdict.reason);
+    } else if (verdict.warn) {
+      log.warn('rate-limit.drop', { reason: verdict.reason, violations: verdict.violations, maxViolations: this.rateLimitConfig.maxViolations });
+      this.sendCustomMessage(connection, {
+        type: 'rate-limit',
+        data: {
+          reason: verdict.reason,
+          violations: verdict.violations,
+          maxViolations: this.rateLimitConfig.maxViolations
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+    return false;
+  }
+
+  /**
+   * Send sync step 1 to a connection whose document update was dropped, once
+   * its limits have reset. The client answers with step 2 - everything we lack.
+   */
+  private resyncIfDue(connection: Connection, now: number, log: Logger) {
+    const resyncAt = this.getConnectionData(connection)?.resyncAt;
+    if (resyncAt === undefined || resyncAt > now || !this.doc) return;
+    this.updateConnectionData(connection, { resyncAt: undefined });
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, this.doc);
+    this.send(connection, encoding.toUint8Array(encoder));
+    log.info('rate-limit.resync', { connectionId: connection.id });
+  }
+
+  /**
+   * Alarm-time resyncs. Returns when the next one is due, or null.
+   */
+  private resyncDroppedUpdates(now: number, log: Logger): number | null {
+    let next: number | null = null;
+    for (const conn of this.getConnections()) {
+      this.resyncIfDue(conn, now, log);
+      const resyncAt = this.getConnectionData(conn)?.resyncAt;
+      if (resyncAt !== undefined) next = Math.min(next ?? resyncAt, resyncAt);
+    }
+    return next;
+  }
+
+  private sendCustomMessage(connection: Connection, msg: ServerMessage) {
+    // Message 2 is auth on the standard wire - a custom message would be misread
+    if (this.isStandardWire(connection)) return;
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_CUSTOM);
+    encoding.writeVarString(encoder, JSON.stringify(msg));
+    this.send(connection, encoding.toUint8Array(encoder));
   }
 
-  private broadcastConnectionCount(event: 'connect' | 'disconnect' = 'connect') {
+  /**
+   * Drop a sync step 2 / update from a read-only connection and tell the client why.
+   */
+  private rejectReadOnlyUpdate(connection: Connection, message: Uint8Array) {
+    const update = readSyncUpdate(message);
+    // Step 2 replies to our step 1 are usually empty - only complain about real edits
+    if (isEmptyUpdate(update)) {
+      return;
+    }
+
+    this.connectionLog(connection).warn('update.read-only-dropped', { bytes: update.length });
+    this.sendCustomMessage(connection, {
+      type: 'read-only',
+      data: {
+        readOnly: true,
+        reason: 'This connection is read-only - document updates are ignored',
+        droppedBytes: update.length
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Attach a client's (already validated) 'hello' identity to its connection.
+   */
+  private handleHello(connection: Connection, hello: ClientMessageData<'hello'>) {
+    const auth = this.getConnectionData(connection)?.auth ?? null;
+    const userData: ConnectedUser = {
+      userId: auth?.userId ?? null,
+      // Authenticated users can't pick someone else's name
+      name: auth?.name ?? hello.name.trim(),
+      color: hello.color,
+      profile_picture_url: hello.profile_picture_url ?? null
+    };
+
+    this.updateConnectionData(connection, { user: userData });
+    this.connectedUsers.set(connection.id, userData);
+    const log = this.connectionLog(connection);
+    log.debug('hello', { user: userData });
+
+    this.broadcastConnectionCount('user-update', log);
+  }
+
+  private broadcastConnectionCount(event: 'connect' | 'disconnect' | 'user-update', log: Logger) {
     const connections = Array.from(this.getConnections());
     const connectionCount = connections.length;
     const mode = connectionCount <= 1 ? 'solo' : 'multi';
@@ -228,15 +1175,6 @@ export class YjsPartyServer extends Server {
       ...userData
     }));
     
-    console.log('[YJS-PARTY] ━━━ Broadcasting connection count ━━━');
-    console.log('[YJS-PARTY] Connection count:', connectionCount);
-    console.log('[YJS-PARTY] Mode:', mode);
-    console.log('[YJS-PARTY] Event:', event);
-    console.log('[YJS-PARTY] Users:', users);
-    console.log('[YJS-PARTY] Broadcasting to', connectionCount, 'client(s)');
-    
-    const encoder = encoding.createEncoder();
-    encoding.writeVarUint(encoder, MESSAGE_CUSTOM);
     const customMsg = {
       type: 'connection-count',
       data: { 
@@ -249,14 +1187,10 @@ export class YjsPartyServer extends Server {
         awarenessStates: this.customAwareness.size,
         timestamp: new Date().toISOString()
       }
-    } as CustomMessage;
-    console.log('[YJS-PARTY] Custom message:', JSON.stringify(customMsg));
-    encoding.writeVarString(encoder, JSON.stringify(customMsg));
-    
-    const msgBytes = encoding.toUint8Array(encoder);
-    console.log('[YJS-PARTY] Message bytes length:', msgBytes.length);
-    this.broadcast(msgBytes);
-    console.log('[YJS-PARTY] ━━━ Broadcast complete ━━━');
+    } as ServerMessage;
+    log.debug('broadcast.connection-count', { ...(customMsg.data as object) });
+    this.broadcastCustomMessage(customMsg);
+    this.feed.record('connection-count', customMsg.data);
   }
 
   async onMessage(connection: Connection, rawMessage: string | ArrayBuffer | ArrayBufferView) {
@@ -264,29 +1198,48 @@ export class YjsPartyServer extends Server {
     const timeSinceCreation = now - this.instanceCreatedAt;
     const timeSinceLastMessage = this.lastMessageAt > 0 ? now - this.lastMessageAt : 0;
     
+    const log = this.beginEvent(connection);
+    // Message 2 is auth on the standard wire, not one of our custom messages
+    const metricsType = receivedMessageType(rawMessage);
+    this.ctx.waitUntil(this.metrics.messageReceived(
+      metricsType === 'custom' && this.isStandardWire(connection) ? 'other' : metricsType,
+      messageBytes(rawMessage)
+    ));
+    
     // Update activity tracking
     this.lastMessageAt = now;
     this.lastActivityAt = now;
     
     if (!this.doc) {
-      console.error('[YJS-PARTY] ERROR: Doc not initialized!');
+      log.error('doc-not-initialized');
       return;
     }
     
     // Hibernation detection in onMessage
     if (timeSinceCreation < 1000 && timeSinceLastMessage === 0) {
-      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log('🔥🔥🔥 [HIBERNATION WAKE-UP IN onMessage] 🔥🔥🔥');
-      console.log('[YJS-PARTY] Time since instance creation:', timeSinceCreation, 'ms');
-      console.log('[YJS-PARTY] ✅ CONFIRMED: DO was hibernated and woke up for this message');
-      console.log('[YJS-PARTY] Message will be processed below...');
-      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+      log.info('message.hibernation-wake', { instanceAgeMs: timeSinceCreation });
+    }
+
+    // Tokens can expire while the socket stays open - the provider reconnects with a fresh one
+    const auth = this.getConnectionData(connection)?.auth;
+    if (auth?.expiresAt && auth.expiresAt < now) {
+      log.warn('auth.expired');
+      connection.close(CLOSE_UNAUTHORIZED, 'Token expired');
+      return;
+    }
+
+    if (!this.enforceRateLimit(connection, rawMessage, now)) {
+      return;
     }
+    this.resyncIfDue(connection, now, log);
+
+    this.touchAwareness(connection, now);
+    this.ctx.waitUntil(this.ledger.recordMessage('websocket', Array.from(this.getConnections()).length));
 
     // Convert to Uint8Array
     let message: Uint8Array;
     if (typeof rawMessage === 'string') {
-      console.log('[YJS-PARTY] Received string message:', rawMessage);
+      log.debug('message.string-ignored', { content: rawMessage });
       return; // Ignore string messages
     } else if (rawMessage instanceof ArrayBuffer) {
       message = new Uint8Array(rawMessage);
@@ -294,24 +1247,38 @@ export class YjsPartyServer extends Server {
       message = new Uint8Array(rawMessage.buffer, rawMessage.byteOffset, rawMessage.byteLength);
     }
 
-    console.log('[YJS-PARTY] Message received:', {
-      from: connection.id,
-      size: message.length,
-      timestamp: new Date().toISOString()
-    });
-
     const decoder = decoding.createDecoder(message);
     const encoder = encoding.createEncoder();
     const messageType = decoding.readVarUint(decoder);
     
     const messageTypeName = messageType === MESSAGE_SYNC ? 'SYNC' : 
                            messageType === MESSAGE_AWARENESS ? 'AWARENESS' : 
-                           messageType === MESSAGE_CUSTOM ? 'CUSTOM' : 'UNKNOWN';
-    console.log(`[YJS-PARTY] Message type: ${messageTypeName} (${messageType})`);
+                           messageType === MESSAGE_CUSTOM ? 'CUSTOM' :
+                           messageType === MESSAGE_QUERY_AWARENESS ? 'QUERY_AWARENESS' : 'UNKNOWN';
+    log.debug('message', { type: messageTypeName, messageType, bytes: message.length });
 
     switch (messageType) {
       case MESSAGE_SYNC:
-        console.log('[YJS-PARTY] Processing SYNC message');
+        const isSyncStep1 = decoding.peekVarUint(decoder) === syncProtocol.messageYjsSyncStep1;
+        // Viewers may request state (step 1) but never write (step 2 / update)
+        if (!isSyncStep1 && this.getConnectionData(connection)?.readOnly) {
+          this.rejectReadOnlyUpdate(connection, message);
+          break;
+        }
+        // Writes from a doc that predates the last reset would bring the old content back
+        const epoch = this.getConnectionData(connection)?.epoch ?? this.resetEpoch;
+        if (epoch !== this.resetEpoch) {
+          if (!isSyncStep1) {
+            log.warn('update.pre-reset-dropped', { epoch, resetEpoch: this.resetEpoch });
+            this.sendResetNotice(connection, null);
+            break;
+          }
+          // A new sync step 1 after a reset comes from the fresh doc - except from
+          // standard clients, which never got the reset and still have the old one
+          if (!this.isStandardWire(connection)) {
+            this.updateConnectionData(connection, { epoch: this.resetEpoch });
+          }
+        }
         encoding.writeVarUint(encoder, MESSAGE_SYNC);
         const syncMessageType = syncProtocol.readSyncMessage(
           decoder,
@@ -323,168 +1290,717 @@ export class YjsPartyServer extends Server {
         // If there's a response, send it back
         if (encoding.length(encoder) > 1) {
           const response = encoding.toUint8Array(encoder);
-          connection.send(response);
-          console.log('[YJS-PARTY] Sent sync response:', response.length, 'bytes');
+          this.send(connection, response);
+          log.debug('sync.response-sent', { bytes: response.length });
         }
         
         // If this was an update, broadcast to others and persist
         if (syncMessageType === syncProtocol.messageYjsUpdate) {
-          console.log('[YJS-PARTY] Broadcasting update to other clients');
           // Broadcast the original message to all other clients
           this.broadcast(message, [connection.id]);
-          // Persist the document
-          await this.persistDocument();
+          const update = readSyncUpdate(message);
+          log.debug('update.broadcast', { bytes: update.length });
+          this.feed.recordUpdate(update, connection.id, auth?.userId ?? null);
+          this.attribution.record(update, this.attributionAuthor(connection));
+          // Append the update to the persistent log
+          await this.persistUpdate(update, log);
+        } else if (syncMessageType === syncProtocol.messageYjsSyncStep2) {
+          // Step 2 carries whatever the client has that we don't - offline edits, or
+          // updates that were still buffered when the previous instance went away
+          const update = readSyncUpdate(message);
+          if (!isEmptyUpdate(update)) {
+            log.info('sync.step2-update', { bytes: update.length });
+            this.broadcastUpdate(update, [connection.id]);
+            this.feed.recordUpdate(update, connection.id, auth?.userId ?? null);
+            this.attribution.record(update, this.attributionAuthor(connection));
+            await this.persistUpdate(update, log);
+          }
         }
         break;
 
       case MESSAGE_AWARENESS:
-        console.log('[YJS-PARTY] Processing AWARENESS message');
         // 🎯 DUMB BROADCASTER PATTERN:
-        // Server just stores and forwards awareness JSON - no validation, no processing
+        // Server just stores and forwards awareness JSON - no validation beyond a size cap
         // Client has FULL control over what to send (cursor, selection, etc.)
         // User metadata (name, color, avatar) comes from server via connection-count
-        const awarenessData = decoding.readVarString(decoder);
+        // Standard clients send the same thing as a binary y-protocols update
         try {
-          const awarenessState = JSON.parse(awarenessData);
-          console.log('[YJS-PARTY] Custom awareness update:', awarenessState);
+          const previous = this.customAwareness.get(connection.id);
+          let entry: AwarenessEntry;
+          if (this.isStandardWire(connection)) {
+            // A provider only sends its own state - one entry per message
+            const [received] = decodeAwarenessUpdate(decoding.readVarUint8Array(decoder));
+            if (!received) break;
+            entry = { ...received, lastSeen: now };
+          } else {
+            entry = {
+              state: JSON.parse(decoding.readVarString(decoder)),
+              lastSeen: now,
+              clientID: previous?.clientID ?? awarenessClientID(connection.id),
+              clock: (previous?.clock ?? 0) + 1
+            };
+          }
+          const length = JSON.stringify(entry.state)?.length ?? 0;
+          if (length > MAX_AWARENESS_STATE_LENGTH) {
+            log.warn('awareness.too-large', { length, max: MAX_AWARENESS_STATE_LENGTH });
+            break;
+          }
+          log.debug('awareness.update', { state: entry.state, clock: entry.clock });
           
-          // Store in map (just for count tracking)
-          this.customAwareness.set(connection.id, awarenessState);
+          // Store in map (just for count tracking) and with the socket (survives hibernation)
+          this.customAwareness.set(connection.id, entry);
+          this.updateConnectionData(connection, {
+            awareness: entry.state,
+            awarenessSeenAt: now,
+            awarenessClientID: entry.clientID,
+            awarenessClock: entry.clock
+          });
           
-          // Broadcast to all other clients (attach clientId so they know who it's from)
-          const broadcastEncoder = encoding.createEncoder();
-          encoding.writeVarUint(broadcastEncoder, MESSAGE_AWARENESS);
-          encoding.writeVarString(broadcastEncoder, JSON.stringify({
-            clientId: connection.id,
-            state: awarenessState
-          }));
-          this.broadcast(encoding.toUint8Array(broadcastEncoder), [connection.id]);
+          // Expire it later unless it's refreshed - only live states need an alarm
+          if (entry.state !== null) {
+            await this.scheduleAlarm(now + AWARENESS_TIMEOUT_MS);
+          }
           
-          console.log('[YJS-PARTY] Broadcasted custom awareness to', this.customAwareness.size, 'clients');
+          // Broadcast to all other clients (attach clientId so they know who it's from)
+          this.broadcastAwareness(connection.id, entry, [connection.id]);
         } catch (e) {
-          console.error('[YJS-PARTY] Failed to parse custom awareness:', e);
+          log.error('awareness.parse-failed', { error: e });
+        }
+        break;
+
+      case MESSAGE_QUERY_AWARENESS:
+        // Standard clients ask for everyone's state after (re)connecting
+        if (this.isStandardWire(connection) && this.customAwareness.size > 0) {
+          this.sendAwareness(connection, Array.from(this.customAwareness));
         }
         break;
 
       case MESSAGE_CUSTOM:
-        console.log('[YJS-PARTY] Processing CUSTOM message');
+        // Auth message on the standard wire - nothing to do
+        if (this.isStandardWire(connection)) break;
         const customData = decoding.readVarString(decoder);
         try {
           const customMsg: CustomMessage = JSON.parse(customData);
-          this.handleCustomMessage(connection, customMsg);
+          await this.handleCustomMessage(connection, customMsg);
         } catch (e) {
-          console.error('[YJS-PARTY] Failed to parse custom message:', e);
+          log.error('custom.parse-failed', { error: e });
         }
         break;
 
       default:
-        console.error('[YJS-PARTY] Unknown message type:', messageType);
+        log.warn('message.unknown-type', { messageType });
     }
   }
 
-  private handleCustomMessage(connection: Connection, msg: CustomMessage) {
-    console.log('[YJS-PARTY] Custom message:', msg.type, msg.data);
+  private async handleCustomMessage(connection: Connection, msg: CustomMessage) {
+    const log = this.connectionLog(connection);
+    log.debug('custom', { type: msg?.type, data: msg?.data });
 
-    switch (msg.type) {
-      case 'ping':
-        // Respond with pong
-        const pongEncoder = encoding.createEncoder();
-        encoding.writeVarUint(pongEncoder, MESSAGE_CUSTOM);
-        encoding.writeVarString(pongEncoder, JSON.stringify({
-          type: 'pong',
-          timestamp: new Date().toISOString()
-        } as CustomMessage));
-        connection.send(encoding.toUint8Array(pongEncoder));
-        console.log('[YJS-PARTY] Sent pong to', connection.id);
-        break;
+    const result = await this.customMessages.dispatch(connection, msg);
+    if (!result.ok) {
+      log.warn('custom.rejected', { type: msg?.type, reason: result.reason });
+      this.sendCustomMessage(connection, {
+        type: 'error',
+        data: { for: typeof msg?.type === 'string' ? msg.type : null, reason: result.reason },
+        timestamp: new Date().toISOString()
+      });
+    } else if (!FEED_PRIVATE_MESSAGE_TYPES.has(msg.type)) {
+      this.feed.record('custom', { from: connection.id, type: msg.type, data: msg.data });
+    }
+  }
 
-      case 'config':
-        // Broadcast config to all other clients
-        console.log('[YJS-PARTY] Broadcasting config:', msg.data);
-        const configEncoder = encoding.createEncoder();
-        encoding.writeVarUint(configEncoder, MESSAGE_CUSTOM);
-        encoding.writeVarString(configEncoder, JSON.stringify(msg));
-        this.broadcast(encoding.toUint8Array(configEncoder), [connection.id]);
-        break;
+  private handlePing(connection: Connection) {
+    // Respond with pong
+    this.sendCustomMessage(connection, {
+      type: 'pong',
+      timestamp: new Date().toISOString()
+    });
+    this.connectionLog(connection).debug('custom.pong');
+  }
 
-      case 'mode':
-        // Broadcast mode change to all other clients
-        console.log('[YJS-PARTY] Broadcasting mode:', msg.data);
-        const modeEncoder = encoding.createEncoder();
-        encoding.writeVarUint(modeEncoder, MESSAGE_CUSTOM);
-        encoding.writeVarString(modeEncoder, JSON.stringify(msg));
-        this.broadcast(encoding.toUint8Array(modeEncoder), [connection.id]);
-        break;
+  /**
+   * Deliver a payload to a single connection, or to every connection of a user.
+   */
+  private handleDirect(connection: Connection, data: ClientMessageData<'direct'>) {
+    const { connectionId, userId, payload } = data;
+    const replyError = (reason: string) => {
+      this.connectionLog(connection).warn('direct.undelivered', { reason, to: { connectionId, userId } });
+      this.sendCustomMessage(connection, {
+        type: 'error',
+        data: { for: 'direct', reason, to: { connectionId, userId } },
+        timestamp: new Date().toISOString()
+      });
+    };
 
-      default:
-        console.log('[YJS-PARTY] Unknown custom message type:', msg.type);
+    if ((connectionId === undefined) === (userId === undefined)) {
+      replyError('Set exactly one of connectionId or userId');
+      return;
+    }
+
+    let targets: Connection[];
+    if (connectionId !== undefined) {
+      const target = this.getConnection(connectionId);
+      targets = target && target.readyState === WebSocket.READY_STATE_OPEN ? [target] : [];
+    } else {
+      targets = Array.from(this.getConnections()).filter(conn => this.getConnectionData(conn)?.auth?.userId === userId);
+    }
+
+    if (targets.length === 0) {
+      replyError(connectionId !== undefined ? `Connection ${connectionId} is not connected` : `User ${userId} is not connected`);
+      return;
+    }
+
+    const sender = this.getConnectionData(connection);
+    const delivery: DirectDelivery = {
+      from: {
+        connectionId: connection.id,
+        userId: sender?.auth?.userId ?? null,
+        name: sender?.user?.name ?? null
+      },
+      payload
+    };
+    for (const target of targets) {
+      this.sendCustomMessage(target, { type: 'direct', data: delivery, timestamp: new Date().toISOString() });
+    }
+    this.connectionLog(connection).debug('direct.delivered', { targets: targets.length });
+  }
+
+  /**
+   * Store a config/mode change, relay the original message to the other
+   * clients and send everyone the new 'room-config' (so the sender learns the version).
+   */
+  private async handleRoomConfigMessage(connection: Connection, patch: RoomConfigPatch, msg: CustomMessage) {
+    const data = this.getConnectionData(connection);
+    const log = this.connectionLog(connection);
+    const replyError = (reason: string) => {
+      log.warn('config.rejected', { type: msg.type, reason });
+      this.sendCustomMessage(connection, {
+        type: 'error',
+        data: { for: msg.type, reason },
+        timestamp: new Date().toISOString()
+      });
+    };
+
+    if (data?.readOnly) {
+      replyError('This connection is read-only - room config changes are ignored');
+      return;
     }
+
+    let snapshot: RoomConfigSnapshot;
+    try {
+      snapshot = await this.roomConfig.update(patch, { updatedBy: data?.auth?.userId ?? connection.id });
+    } catch (e) {
+      if (e instanceof RoomConfigError) {
+        replyError(e.message);
+        return;
+      }
+      throw e;
+    }
+
+    this.relayToOthers(connection, msg);
+    this.broadcastRoomConfig(snapshot, log);
+  }
+
+  private broadcastRoomConfig(snapshot: RoomConfigSnapshot, log: Logger) {
+    log.info('config.updated', { version: snapshot.version, updatedBy: snapshot.updatedBy });
+    this.broadcastToCapable('room-config', {
+      type: 'room-config',
+      data: snapshot,
+      timestamp: new Date().toISOString()
+    });
   }
 
-  async onClose(connection: Connection) {
-    console.log('[YJS-PARTY] Client disconnected:', connection.id);
+  /**
+   * Broadcast a config/mode message to all other clients as-is
+   */
+  private relayToOthers(connection: Connection, msg: CustomMessage) {
+    this.connectionLog(connection).debug('broadcast.relay', { type: msg.type, data: msg.data });
+    this.broadcastCustomMessage(msg, [connection.id]);
+  }
+
+  private broadcastCustomMessage(msg: CustomMessage, without?: string[]) {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_CUSTOM);
+    encoding.writeVarString(encoder, JSON.stringify(msg));
+    const bytes = encoding.toUint8Array(encoder);
+    let recipients = 0;
+    for (const conn of this.getConnections()) {
+      if (!without?.includes(conn.id) && !this.isStandardWire(conn)) {
+        conn.send(bytes);
+        recipients++;
+      }
+    }
+    this.metrics.broadcast();
+    this.ctx.waitUntil(this.metrics.sent(bytes.length, recipients));
+  }
+
+  async onClose(connection: Connection, code: number, reason: string) {
+    const log = this.beginEvent(connection);
+    log.info('close', { code, reason, user: this.connectedUsers.get(connection.id) ?? null });
+    this.ctx.waitUntil(this.metrics.closed(code));
+
+    // Don't leave a departing client's last edits in memory only
+    await this.flushUpdates('connection closed', log);
     
     // Remove user data
-    if (this.connectedUsers.has(connection.id)) {
-      const userData = this.connectedUsers.get(connection.id);
-      this.connectedUsers.delete(connection.id);
-      console.log('[YJS-PARTY] Removed user:', userData);
-    }
+    this.connectedUsers.delete(connection.id);
     
     // Remove from custom awareness
-    if (this.customAwareness.has(connection.id)) {
+    const awarenessEntry = this.customAwareness.get(connection.id);
+    if (awarenessEntry) {
       this.customAwareness.delete(connection.id);
-      console.log('[YJS-PARTY] Removed from custom awareness, remaining:', this.customAwareness.size);
+      log.debug('awareness.removed', { remaining: this.customAwareness.size });
       
       // Broadcast removal to other clients
-      const encoder = encoding.createEncoder();
-      encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
-      encoding.writeVarString(encoder, JSON.stringify({
-        clientId: connection.id,
-        state: null  // null = removed
-      }));
-      this.broadcast(encoding.toUint8Array(encoder));
+      this.broadcastAwarenessRemoval(connection.id, awarenessEntry);
     }
     
     // Delayed check to get accurate count after connection is removed
     // (Same pattern as PartyServer - connection needs time to be removed from getConnections())
     setTimeout(() => {
       const connections = Array.from(this.getConnections());
-      console.log('[YJS-PARTY] Final connection count after disconnect:', connections.length);
+      log.debug('close.connections', { connections: connections.length });
       
       // Broadcast updated connection count
-      this.broadcastConnectionCount('disconnect');
+      this.broadcastConnectionCount('disconnect', log);
+
+      this.ctx.waitUntil(this.ledger.record('close', 'websocket', connections.length, { connectionId: connection.id }));
+      if (connections.length === 0) {
+        this.reportToRegistry('disconnect', connection.server, log);
+        this.ctx.waitUntil(this.ledger.record('sleep-candidate', 'last-close', 0));
+      }
     }, 0);
   }
 
   async onRequest(request: Request): Promise<Response> {
     const url = new URL(request.url);
+    const log = this.eventLog(this.name, request);
+    log.debug('request', { method: request.method, path: url.pathname });
     
     if (url.pathname.includes('/status')) {
       const connections = Array.from(this.getConnections());
       return Response.json({
         connections: connections.length,
         docSize: this.doc ? Y.encodeStateAsUpdate(this.doc).length : 0,
-        awarenessStates: this.awareness ? this.awareness.getStates().size : 0,
+        awarenessStates: this.customAwareness.size,
+        tombstones: this.doc ? tombstoneStats(this.doc) : null,
+        compactionDueAt: this.compactionDueAt ? new Date(this.compactionDueAt).toISOString() : null,
+        updateLogLength: this.updateLog.length,
+        persistence: {
+          ...this.persistenceConfig,
+          pendingUpdates: this.updateLog.pendingUpdates,
+          pendingBytes: this.updateLog.pendingBytes
+        },
+        feedCursor: this.feed.cursor,
+        feedSubscribers: this.feed.subscriberCount,
         timestamp: new Date().toISOString()
       });
     }
 
-    if (url.pathname.includes('/clear')) {
-      // Clear the document (useful for testing)
-      if (this.doc) {
-        this.doc.destroy();
-        this.doc = new Y.Doc({ gc: false });
-        this.awareness = new awarenessProtocol.Awareness(this.doc);
-        await this.ctx.storage.delete(this.persistenceKey);
-        console.log('[YJS-PARTY] Document cleared');
+    if (/\/metrics\/?$/.test(url.pathname)) {
+      return new Response(await this.metrics.render({
+        room: this.name,
+        connections: Array.from(this.getConnections()).length
+      }), { headers: { 'Content-Type': METRICS_CONTENT_TYPE } });
+    }
+
+    if (/\/config\/?$/.test(url.pathname)) {
+      return this.handleConfigRequest(request, log);
+    }
+
+    if (/\/export\/?$/.test(url.pathname)) {
+      return this.handleExportRequest(request, url, log);
+    }
+
+    if (/\/blame\/?$/.test(url.pathname)) {
+      if (!this.doc) {
+        return Response.json({ error: 'Doc not initialized' }, { status: 503 });
+      }
+      // Document text plus author names and ids
+      const denied = await this.requireReader(request, log);
+      if (denied) {
+        log.warn('blame.rejected', { status: denied.status });
+        return denied;
+      }
+      return Response.json(this.attribution.blame(this.doc.getXmlFragment(PROSEMIRROR_FRAGMENT)));
+    }
+
+    if (/\/feed\/?$/.test(url.pathname)) {
+      const denied = await this.requireReader(request, log);
+      if (denied) {
+        log.warn('feed.rejected', { status: denied.status });
+        return denied;
       }
-      return Response.json({ cleared: true });
+      // EventSource sends Last-Event-ID when it reconnects
+      const cursor = request.headers.get('Last-Event-ID') ?? url.searchParams.get('cursor');
+      const parsed = cursor !== null ? parseInt(cursor, 10) : NaN;
+      return this.feed.subscribe(Number.isFinite(parsed) && parsed >= 0 ? parsed : null);
+    }
+
+    if (/\/import\/?$/.test(url.pathname)) {
+      return this.handleImportRequest(request, url, log);
     }
 
-    return new Response('Yjs PartyServer\n\nEndpoints:\n/status - Connection info\n/clear - Reset document', { 
+    const versionsMatch = url.pathname.match(/\/versions(?:\/([^/]+))?(\/restore)?\/?$/);
+    if (versionsMatch) {
+      return this.handleVersionsRequest(request, url, versionsMatch[1], !!versionsMatch[2], log);
+    }
+
+    if (/\/compact\/?$/.test(url.pathname)) {
+      if (request.method !== 'POST') {
+        return Response.json({ error: 'Use POST to compact the document' }, { status: 405 });
+      }
+      const denied = await this.requireAdmin(request, log);
+      if (denied) return denied;
+      return Response.json(await this.compactTombstones('manual', log));
+    }
+
+    if (/\/clear\/?$/.test(url.pathname)) {
+      return this.handleClearRequest(request, log);
+    }
+
+    if (/\/hibernation-history\/?$/.test(url.pathname)) {
+      const type = url.searchParams.get('type') as LedgerEventType | null;
+      const limit = url.searchParams.get('limit');
+      return Response.json(await this.ledger.history({
+        type: type ?? undefined,
+        limit: limit ? parseInt(limit, 10) : undefined
+      }));
+    }
+
+    return new Response('Yjs PartyServer\n\nEndpoints:\n/status - Connection info\n/config - Room config and mode (GET, or PUT { config?, mode?, expectedVersion? } with admin token)\n/export?format=json|html|markdown|update - Export the document (token)\n/blame - Author and time of each text range (token)\n/import?format=update|html|markdown&mode=merge|replace - Load content (POST body, admin token)\n/feed - Server-Sent Events change feed (token; resume with Last-Event-ID or ?cursor=)\n/compact - Drop tombstones (POST, admin token)\n/clear - Reset document (POST, admin token)\n/versions - List (GET, token) or create (POST ?name=, admin token) versions\n/versions/:id - Fetch a version (token; ?diff=<id>|current to compare)\n/versions/:id/restore - Restore a version (POST, admin token)\n/hibernation-history - Wake/connect/close/message ledger (?type=, ?limit=)\n/metrics - OpenMetrics counters for Prometheus', { 
       status: 200,
       headers: { 'Content-Type': 'text/plain' }
     });
   }
+
+  /**
+   * Check the request's token for the admin role. Returns an error response, or null if allowed.
+   */
+  private async requireAdmin(request: Request, log: Logger): Promise<Response | null> {
+    const secret = this.env.AUTH_SECRET;
+    if (!secret) {
+      log.warn('auth.disabled', { reason: 'AUTH_SECRET not set - allowing admin request without a token' });
+      return null;
+    }
+    return adminRequestError(request, secret);
+  }
+
+  /**
+   * Check the request for a valid token of any role - for endpoints that
+   * reveal document content. Returns an error response, or null if allowed.
+   */
+  private async requireReader(request: Request, log: Logger): Promise<Response | null> {
+    const secret = this.env.AUTH_SECRET;
+    if (!secret) {
+      log.warn('auth.disabled', { reason: 'AUTH_SECRET not set - allowing read request without a token' });
+      return null;
+    }
+    return tokenRequestError(request, secret);
+  }
+
+  /**
+   * Start the room over with an empty document and make every client do the same.
+   */
+  private async handleClearRequest(request: Request, log: Logger): Promise<Response> {
+    if (request.method !== 'POST') {
+      return Response.json({ error: 'Use POST to clear the document' }, { status: 405 });
+    }
+    const denied = await this.requireAdmin(request, log);
+    if (denied) {
+      log.warn('clear.rejected', { status: denied.status });
+      return denied;
+    }
+    if (!this.doc) {
+      return Response.json({ error: 'Doc not initialized' }, { status: 503 });
+    }
+
+    // Keep a version so an accidental clear can be undone
+    const backup = await this.versions.create(this.doc, `before clear ${new Date().toISOString()}`);
+    this.doc.destroy();
+    this.doc = new Y.Doc({ gc: false });
+    await this.metrics.timePersistence('clear', () => this.updateLog.clear());
+    await this.attribution.clear();
+    this.flushDueAt = null;
+    const stateVector = Y.encodeStateVector(this.doc);
+    this.savedStateVector = stateVector;
+
+    this.resetEpoch++;
+    await this.ctx.storage.put(RESET_EPOCH_KEY, this.resetEpoch);
+    log.info('clear', { resetEpoch: this.resetEpoch, backup: backup.id });
+
+    // Clients that can't reset are read-only (too old) and can't push stale content back
+    for (const conn of this.getConnections()) {
+      if (this.supports(conn, 'reset')) {
+        this.sendResetNotice(conn, backup.id);
+      }
+    }
+    this.feed.record('reset', { epoch: this.resetEpoch, backup: backup.id });
+    // Update events buffered before the clear are written with the reset event
+    await this.markSaved(stateVector);
+
+    return Response.json({ cleared: true, epoch: this.resetEpoch, backup });
+  }
+
+  private savedMessage(): ServerMessage {
+    const notice: SavedNotice = {
+      epoch: this.resetEpoch,
+      stateVector: buffer.toBase64(this.savedStateVector ?? Y.encodeStateVector(new Map()))
+    };
+    return { type: 'saved', data: notice, timestamp: new Date().toISOString() };
+  }
+
+  private sendResetNotice(connection: Connection, backup: string | null) {
+    const notice: ResetNotice = {
+      epoch: this.resetEpoch,
+      backup,
+      reason: 'The document was cleared - discard local state and resync'
+    };
+    this.sendCustomMessage(connection, { type: 'reset', data: notice, timestamp: new Date().toISOString() });
+  }
+
+  private async handleConfigRequest(request: Request, log: Logger): Promise<Response> {
+    if (request.method === 'GET') {
+      return Response.json(await this.roomConfig.get());
+    }
+    if (request.method !== 'PUT') {
+      return Response.json({ error: 'Use GET or PUT' }, { status: 405 });
+    }
+    // Viewers can't change it over the socket either - HTTP must not be a way around that
+    const denied = await this.requireAdmin(request, log);
+    if (denied) {
+      log.warn('config.rejected', { status: denied.status });
+      return denied;
+    }
+
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return Response.json({ error: 'Body must be JSON' }, { status: 400 });
+    }
+    if (typeof body !== 'object' || body === null || (body.config === undefined && body.mode === undefined)) {
+      return Response.json({ error: 'Body must contain config and/or mode' }, { status: 400 });
+    }
+    if (body.expectedVersion !== undefined && !Number.isInteger(body.expectedVersion)) {
+      return Response.json({ error: 'expectedVersion must be an integer' }, { status: 400 });
+    }
+
+    let snapshot: RoomConfigSnapshot;
+    try {
+      snapshot = await this.roomConfig.update(
+        { config: body.config, mode: body.mode },
+        { updatedBy: 'http', expectedVersion: body.expectedVersion }
+      );
+    } catch (e) {
+      if (e instanceof RoomConfigConflictError) {
+        return Response.json({ error: e.message, current: e.current }, { status: 409 });
+      }
+      if (e instanceof RoomConfigError) {
+        return Response.json({ error: e.message }, { status: 413 });
+      }
+      throw e;
+    }
+
+    // Same messages a client change produces, so connected clients don't care where it came from
+    const timestamp = new Date().toISOString();
+    if (body.config !== undefined) this.broadcastCustomMessage({ type: 'config', data: body.config, timestamp });
+    if (body.mode !== undefined) this.broadcastCustomMessage({ type: 'mode', data: body.mode, timestamp });
+    if (body.config !== undefined) this.feed.record('custom', { from: 'http', type: 'config', data: body.config });
+    if (body.mode !== undefined) this.feed.record('custom', { from: 'http', type: 'mode', data: body.mode });
+    this.broadcastRoomConfig(snapshot, log);
+
+    return Response.json(snapshot);
+  }
+
+  private async handleExportRequest(request: Request, url: URL, log: Logger): Promise<Response> {
+    if (!this.doc) {
+      return Response.json({ error: 'Doc not initialized' }, { status: 503 });
+    }
+    // The whole document - no more than a viewer connection could read
+    const denied = await this.requireReader(request, log);
+    if (denied) {
+      log.warn('export.rejected', { status: denied.status });
+      return denied;
+    }
+
+    const format = (url.searchParams.get('format') ?? 'json') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return Response.json({ error: `Unknown format: ${format} (use ${EXPORT_FORMATS.join(', ')})` }, { status: 400 });
+    }
+    log.debug('export', { format });
+
+    if (format === 'update') {
+      return new Response(Y.encodeStateAsUpdate(this.doc), {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Disposition': `attachment; filename="${encodeURIComponent(this.name)}.yjs"`
+        }
+      });
+    }
+
+    const json = fragmentToJSON(this.doc.getXmlFragment(PROSEMIRROR_FRAGMENT));
+    if (format === 'json') {
+      return Response.json(json);
+    }
+    if (format === 'html') {
+      // Served from the room's origin - no scripts, whatever the document holds
+      return new Response(toHTML(json), {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Content-Security-Policy': 'sandbox',
+          'X-Content-Type-Options': 'nosniff'
+        }
+      });
+    }
+    return new Response(toMarkdown(json), { headers: { 'Content-Type': 'text/markdown; charset=utf-8' } });
+  }
+
+  private async handleImportRequest(request: Request, url: URL, log: Logger): Promise<Response> {
+    if (!this.doc) {
+      return Response.json({ error: 'Doc not initialized' }, { status: 503 });
+    }
+    if (request.method !== 'POST') {
+      return Response.json({ error: 'Use POST to import' }, { status: 405 });
+    }
+    // mode=replace wipes the document - at least as destructive as /clear
+    const denied = await this.requireAdmin(request, log);
+    if (denied) {
+      log.warn('import.rejected', { status: denied.status });
+      return denied;
+    }
+
+    // Format from ?format=, or guessed from the Content-Type
+    const contentType = request.headers.get('Content-Type') ?? '';
+    const format = (url.searchParams.get('format') ??
+      (contentType.includes('html') ? 'html' : contentType.includes('markdown') ? 'markdown' : 'update')) as ImportFormat;
+    const mode = (url.searchParams.get('mode') ?? 'merge') as ImportMode;
+    if (!IMPORT_FORMATS.includes(format)) {
+      return Response.json({ error: `Unknown format: ${format} (use ${IMPORT_FORMATS.join(', ')})` }, { status: 400 });
+    }
+    if (!IMPORT_MODES.includes(mode)) {
+      return Response.json({ error: `Unknown mode: ${mode} (use ${IMPORT_MODES.join(', ')})` }, { status: 400 });
+    }
+
+    const body = new Uint8Array(await request.arrayBuffer());
+    if (body.length === 0) {
+      return Response.json({ error: 'Empty body' }, { status: 400 });
+    }
+    if (body.length > MAX_IMPORT_BYTES) {
+      return Response.json({ error: `Body too large (${body.length} > ${MAX_IMPORT_BYTES} bytes)` }, { status: 413 });
+    }
+
+    let update: Uint8Array;
+    try {
+      if (format === 'update') {
+        // Validates the update even when merging it as-is
+        const content = updateToJSON(body, PROSEMIRROR_FRAGMENT);
+        update = mode === 'merge' ? body : buildImportUpdate(this.doc, PROSEMIRROR_FRAGMENT, content, mode);
+      } else {
+        const source = new TextDecoder().decode(body);
+        const content = format === 'html' ? htmlToJSON(source) : markdownToJSON(source);
+        update = buildImportUpdate(this.doc, PROSEMIRROR_FRAGMENT, content, mode);
+      }
+    } catch (e) {
+      if (e instanceof ImportError) {
+        return Response.json({ error: e.message }, { status: 400 });
+      }
+      throw e;
+    }
+
+    const backup = await this.versions.create(this.doc, `before import ${new Date().toISOString()}`);
+    await this.applyServerUpdate(update, 'import', log);
+    log.info('import', { format, mode, bodyBytes: body.length, updateBytes: update.length });
+
+    return Response.json({
+      imported: format,
+      mode,
+      backup,
+      updateSize: update.length,
+      docSize: Y.encodeStateAsUpdate(this.doc).length
+    });
+  }
+
+  private async handleVersionsRequest(request: Request, url: URL, id: string | undefined, restore: boolean, log: Logger): Promise<Response> {
+    if (!this.doc) {
+      return Response.json({ error: 'Doc not initialized' }, { status: 503 });
+    }
+
+    // Creating and restoring versions is for admins; reading them (old document
+    // contents) needs a token of any role
+    const denied = request.method === 'POST'
+      ? await this.requireAdmin(request, log)
+      : await this.requireReader(request, log);
+    if (denied) {
+      log.warn('versions.rejected', { status: denied.status, method: request.method, restore });
+      return denied;
+    }
+
+    // /versions
+    if (!id) {
+      if (request.method === 'POST') {
+        const name = url.searchParams.get('name') || `manual ${new Date().toISOString()}`;
+        const info = await this.versions.create(this.doc, name);
+        return Response.json(info, { status: 201 });
+      }
+      return Response.json({ versions: await this.versions.list() });
+    }
+
+    const version = await this.versions.get(id);
+    if (!version) {
+      return Response.json({ error: `Unknown version: ${id}` }, { status: 404 });
+    }
+
+    // /versions/:id/restore
+    if (restore) {
+      if (request.method !== 'POST') {
+        return Response.json({ error: 'Use POST to restore a version' }, { status: 405 });
+      }
+      const backup = await this.versions.create(this.doc, `before restore of ${id}`);
+      const revert = VersionHistory.revertUpdate(this.doc, version.state);
+      await this.applyServerUpdate(revert, 'version-restore', log);
+      log.info('version.restored', { versionId: id, updateBytes: revert.length });
+      return Response.json({ restored: version.info, backup, updateSize: revert.length });
+    }
+
+    // /versions/:id
+    const versionDoc = new Y.Doc({ gc: false });
+    Y.applyUpdate(versionDoc, version.state);
+    const content = versionDoc.getXmlFragment(PROSEMIRROR_FRAGMENT).toString();
+
+    const diffAgainst = url.searchParams.get('diff');
+    if (!diffAgainst) {
+      versionDoc.destroy();
+      return Response.json({ ...version.info, content });
+    }
+
+    let otherDoc: Y.Doc;
+    if (diffAgainst === 'current') {
+      otherDoc = this.doc;
+    } else {
+      const other = await this.versions.get(diffAgainst);
+      if (!other) {
+        versionDoc.destroy();
+        return Response.json({ error: `Unknown version: ${diffAgainst}` }, { status: 404 });
+      }
+      otherDoc = new Y.Doc({ gc: false });
+      Y.applyUpdate(otherDoc, other.state);
+    }
+
+    const otherContent = otherDoc.getXmlFragment(PROSEMIRROR_FRAGMENT).toString();
+    const diff = {
+      from: id,
+      to: diffAgainst,
+      changed: content !== otherContent,
+      // Bytes each side has that the other one is missing
+      addedBytes: Y.encodeStateAsUpdate(otherDoc, Y.encodeStateVector(versionDoc)).length,
+      removedBytes: Y.encodeStateAsUpdate(versionDoc, Y.encodeStateVector(otherDoc)).length,
+      fromContent: content,
+      toContent: otherContent
+    };
+
+    versionDoc.destroy();
+    if (otherDoc !== this.doc) otherDoc.destroy();
+    return Response.json(diff);
+  }
 }
@@ -1,4 +1,4 @@
-import { RawTestDO } from './test-do';
+import { RawTestDO, ROOM_NAME_HEADER } from './test-do';
 
 export { RawTestDO };
 
@@ -17,11 +17,16 @@ export default {
       });
     }
     
-    // Get or create DO instance
-    const doId = env.RAW_TEST_DO.idFromName('test-room');
+    // Get or create DO instance (?room=<name>, default test-room)
+    const room = url.searchParams.get('room') || 'test-room';
+    const doId = env.RAW_TEST_DO.idFromName(room);
     const stub = env.RAW_TEST_DO.get(doId);
     
+    // The DO can't see its own name - pass it along for the room registry
+    const forwarded = new Request(request);
+    forwarded.headers.set(ROOM_NAME_HEADER, room);
+    
     // Forward request directly - don't modify WebSocket responses!
-    return stub.fetch(request);
+    return stub.fetch(forwarded);
   }
 };
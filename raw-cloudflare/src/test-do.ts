@@ -4,39 +4,77 @@
  * This tests Cloudflare's getWebSockets() behavior directly without any wrappers.
  * 
  * CRITICAL TEST: Does ctx.getWebSockets() return [] or actual connections during fetch?
+ *
+ * Reports first connect, last disconnect and hibernation wake to the room
+ * registry (shared/room-registry.ts). The room name comes from the worker in
+ * ROOM_NAME_HEADER and is kept in each socket's attachment, so it's still
+ * known after a wake.
+ *
+ * Wakes, connects, closes and messages are written to the hibernation ledger
+ * (shared/hibernation-ledger.ts) - GET /hibernation-history. Message, byte,
+ * broadcast, wake-up and close counters are served in OpenMetrics format at
+ * GET /metrics (shared/room-metrics.ts).
+ *
+ * Logs are JSON lines (shared/logger.ts); the getWebSockets() checks around
+ * accept and close are at debug level (LOG_LEVEL = "debug" in wrangler.toml).
  */
 
+import { reportRoom, type RoomEvent } from '../../shared/room-registry';
+import { HibernationLedger, type LedgerEventType } from '../../shared/hibernation-ledger';
+import { correlationId, createLogger, type Logger } from '../../shared/logger';
+import { METRICS_CONTENT_TYPE, RoomMetrics, messageBytes, receivedMessageType } from '../../shared/room-metrics';
+
+export const ROOM_NAME_HEADER = 'X-Room-Name';
+
 export class RawTestDO {
   private acceptedCount = 0;
+  private ledger: HibernationLedger;
+  private metrics: RoomMetrics;
+  private log: Logger;
 
   constructor(
     private state: DurableObjectState,
     private env: any
   ) {
+    this.log = createLogger(env, { component: 'raw-test-do' });
+    this.ledger = new HibernationLedger(state.storage, 'raw-test-do', {
+      log: this.log.child({ component: 'hibernation-ledger' })
+    });
+    this.metrics = new RoomMetrics(state.storage, 'raw-test-do', {
+      log: this.log.child({ component: 'room-metrics' })
+    });
+
     // 🔍 TEST: Constructor after hibernation wake-up
     const socketsInConstructor = this.state.getWebSockets();
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('[CONSTRUCTOR] Durable Object instantiated');
-    console.log('[CONSTRUCTOR] getWebSockets() returned:', {
-      count: socketsInConstructor.length,
-      timestamp: new Date().toISOString(),
-      hasConnections: socketsInConstructor.length > 0,
+    const attachments = socketsInConstructor.map(ws => {
+      try {
+        return ws.deserializeAttachment();
+      } catch (err) {
+        return { error: err };
+      }
+    });
+    const room: string | undefined = attachments.find(attachment => attachment?.room)?.room;
+    const log = this.eventLog(room);
+    this.state.waitUntil(this.metrics.wake(socketsInConstructor.length > 0 ? 'hibernation' : 'cold_start'));
+
+    // Connections in the constructor = woken up from hibernation
+    log.info('start', {
+      connections: socketsInConstructor.length,
+      hibernationWake: socketsInConstructor.length > 0
     });
-    
     if (socketsInConstructor.length > 0) {
-      console.log('[CONSTRUCTOR] ✅ Connections found in constructor (after hibernation wake-up)');
-      for (const ws of socketsInConstructor) {
-        try {
-          const attachment = ws.deserializeAttachment();
-          console.log('[CONSTRUCTOR] Connection:', attachment);
-        } catch (err) {
-          console.log('[CONSTRUCTOR] Could not deserialize attachment:', err);
-        }
-      }
-    } else {
-      console.log('[CONSTRUCTOR] No connections in constructor (fresh start or all closed)');
+      log.debug('start.connections', { attachments });
+      if (room) this.reportToRegistry('wake', room, socketsInConstructor.length, log);
     }
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  }
+
+  /** Logger for one incoming event, with its own correlationId */
+  private eventLog(room: string | undefined, connectionId?: string, request?: Request): Logger {
+    return this.log.child({
+      room: room ?? null,
+      ...(connectionId ? { connectionId } : {}),
+      correlationId: correlationId(request)
+    });
   }
 
   async fetch(request: Request): Promise<Response> {
@@ -62,29 +100,41 @@ export class RawTestDO {
       });
     }
 
+    if (url.pathname === '/metrics') {
+      return new Response(await this.metrics.render({
+        room: request.headers.get(ROOM_NAME_HEADER) || 'test-room',
+        connections: this.state.getWebSockets().length
+      }), { headers: { 'Content-Type': METRICS_CONTENT_TYPE } });
+    }
+
+    if (url.pathname === '/hibernation-history') {
+      const type = url.searchParams.get('type') as LedgerEventType | null;
+      const limit = url.searchParams.get('limit');
+      return new Response(JSON.stringify(await this.ledger.history({
+        type: type ?? undefined,
+        limit: limit ? parseInt(limit, 10) : undefined
+      }), null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
     // WebSocket upgrade
     if (upgradeHeader === 'websocket') {
       const pair = new WebSocketPair();
       const [client, server] = Object.values(pair);
-      
-      console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log('[FETCH] WebSocket upgrade request received');
-      
-      // 🔍 TEST: Before accepting
-      const beforeAccept = this.state.getWebSockets();
-      console.log('[BEFORE-ACCEPT] getWebSockets():', {
-        count: beforeAccept.length,
-        timestamp: new Date().toISOString()
-      });
 
       // Accept WebSocket with tags
       const connectionId = crypto.randomUUID();
       const timestamp = Date.now();
+      const room = request.headers.get(ROOM_NAME_HEADER) || 'test-room';
+      const log = this.eventLog(room, connectionId, request);
       
-      console.log('[ACCEPTING] Calling state.acceptWebSocket()...', {
-        connectionId,
-        tags: [connectionId, 'test-connection']
-      });
+      // 🔍 TEST: Before accepting
+      const beforeAccept = this.state.getWebSockets();
+      log.debug('connect.before-accept', { sockets: beforeAccept.length, tags: [connectionId, 'test-connection'] });
       
       this.state.acceptWebSocket(server, [connectionId, 'test-connection']);
       this.acceptedCount++;
@@ -93,46 +143,42 @@ export class RawTestDO {
       server.serializeAttachment({
         id: connectionId,
         acceptedAt: timestamp,
-        type: 'test-connection'
+        type: 'test-connection',
+        room
       });
       
-      console.log('[ACCEPTED] ✅ WebSocket accepted successfully');
-
       // 🔍 CRITICAL TEST: Immediately after accepting
       const afterAccept = this.state.getWebSockets();
       const afterAcceptWithTag = this.state.getWebSockets(connectionId);
-      
-      console.log('\n🔬 CRITICAL TEST: getWebSockets() immediately after accept:');
-      console.log('[AFTER-ACCEPT] getWebSockets():', {
-        count: afterAccept.length,
-        countWithTag: afterAcceptWithTag.length,
+
+      // Verdict: [] = Cloudflare doesn't populate the array during fetch
+      const verdict = afterAccept.length === 0
+        ? 'empty-during-fetch'
+        : afterAccept.length === this.acceptedCount ? 'match' : 'mismatch';
+      log.info('connect', { connections: afterAccept.length });
+      log.debug('connect.after-accept', {
+        sockets: afterAccept.length,
+        socketsWithTag: afterAcceptWithTag.length,
         acceptedCount: this.acceptedCount,
-        timestamp: new Date().toISOString()
+        verdict
       });
-
-      // Verdict
-      if (afterAccept.length === 0) {
-        console.log('❌ BUG CONFIRMED: getWebSockets() returned [] during fetch!');
-        console.log('   Cloudflare does NOT populate array during fetch lifecycle');
-      } else if (afterAccept.length === this.acceptedCount) {
-        console.log('✅ WORKING: getWebSockets() returned connections immediately');
-        console.log('   Count matches accepted connections');
-      } else {
-        console.log('⚠️  UNEXPECTED: Count mismatch but not zero');
-        console.log(`   Expected: ${this.acceptedCount}, Got: ${afterAccept.length}`);
+      if (verdict !== 'match') {
+        log.warn('connect.count-mismatch', { sockets: afterAccept.length, acceptedCount: this.acceptedCount, verdict });
       }
 
       // Try to deserialize
-      if (afterAccept.length > 0) {
+      if (afterAccept.length > 0 && log.isEnabled('debug')) {
         try {
-          const attachment = afterAccept[0].deserializeAttachment();
-          console.log('[AFTER-ACCEPT] Can deserialize attachment:', attachment);
+          log.debug('connect.attachment', { attachment: afterAccept[0].deserializeAttachment() });
         } catch (err) {
-          console.log('[AFTER-ACCEPT] Cannot deserialize attachment:', err);
+          log.debug('connect.attachment-failed', { error: err });
         }
       }
 
-      console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+      if (afterAccept.length === 1) {
+        this.reportToRegistry('connect', room, 1, log);
+      }
+      this.state.waitUntil(this.ledger.record('connect', 'websocket', afterAccept.length, { connectionId }));
 
       // Return WebSocket upgrade response
       return new Response(null, {
@@ -141,7 +187,7 @@ export class RawTestDO {
       });
     }
 
-    return new Response('Raw Cloudflare DO Test\nEndpoints:\n- WebSocket: ws://\n- Status: /status', {
+    return new Response('Raw Cloudflare DO Test\nEndpoints:\n- WebSocket: ws://\n- Status: /status\n- Hibernation ledger: /hibernation-history (?type=, ?limit=)\n- Metrics: /metrics (OpenMetrics)', {
       headers: { 'Access-Control-Allow-Origin': '*' }
     });
   }
@@ -149,20 +195,20 @@ export class RawTestDO {
   async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
     const msg = typeof message === 'string' ? message : new TextDecoder().decode(message);
     const sockets = this.state.getWebSockets();
+    this.state.waitUntil(this.ledger.recordMessage('websocket', sockets.length));
+    this.state.waitUntil(this.metrics.messageReceived(receivedMessageType(message), messageBytes(message)));
     
     // Get sender info
     let senderId = 'unknown';
+    let room: string | undefined;
     try {
       const attachment = ws.deserializeAttachment();
       senderId = attachment.id;
+      room = attachment.room;
     } catch {}
+    const log = this.eventLog(room, senderId);
     
-    console.log('[MESSAGE] Received:', {
-      message: msg,
-      from: senderId.substring(0, 8) + '...',
-      currentCount: sockets.length,
-      timestamp: new Date().toISOString()
-    });
+    log.debug('message', { content: msg, connections: sockets.length });
 
     // Broadcast to ALL connections (including sender)
     const broadcastMsg = JSON.stringify({
@@ -174,47 +220,70 @@ export class RawTestDO {
       acceptedConnections: this.acceptedCount
     });
     
+    let recipients = 0;
     for (const socket of sockets) {
       try {
         socket.send(broadcastMsg);
+        recipients++;
       } catch (err) {
-        console.log('[BROADCAST] Failed to send to socket:', err);
+        log.warn('broadcast.send-failed', { error: err });
       }
     }
+    this.metrics.broadcast();
+    this.state.waitUntil(this.metrics.sent(messageBytes(broadcastMsg), recipients));
   }
 
   async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean) {
     let attachment: any = null;
+    let attachmentError: unknown = null;
     try {
       attachment = ws.deserializeAttachment();
     } catch (err) {
-      console.log('[CLOSE] Could not deserialize attachment:', err);
+      attachmentError = err;
+    }
+    const log = this.eventLog(attachment?.room, attachment?.id);
+    if (attachmentError) {
+      log.warn('close.attachment-failed', { error: attachmentError });
     }
 
+    // Can we still see the closing socket in getWebSockets()?
     const beforeClose = this.state.getWebSockets();
-    
-    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('[CLOSE] ✅ webSocketClose event FIRED!');
-    console.log('[CLOSE] Connection details:', {
-      connectionId: attachment?.id,
-      code,
-      reason,
-      wasClean,
-      socketsBeforeClose: beforeClose.length,
-      timestamp: new Date().toISOString()
+    log.info('close', { code, reason, wasClean });
+    this.state.waitUntil(this.metrics.closed(code));
+    log.debug('close.sockets', { socketsBeforeClose: beforeClose.length });
+
+    // The closing socket may still be listed
+    const remaining = beforeClose.filter(socket => {
+      try {
+        return socket.deserializeAttachment()?.id !== attachment?.id;
+      } catch {
+        return true;
+      }
     });
-    
-    // Check if we can see the closing socket
-    if (beforeClose.length > 0) {
-      console.log('[CLOSE] ✅ Can still see connections in getWebSockets()');
-    } else {
-      console.log('[CLOSE] ⚠️  getWebSockets() is empty during close event');
+    this.state.waitUntil(this.ledger.record('close', 'websocket', remaining.length, { connectionId: attachment?.id, code, wasClean }));
+    if (remaining.length === 0) {
+      if (attachment?.room) this.reportToRegistry('disconnect', attachment.room, 0, log);
+      this.state.waitUntil(this.ledger.record('sleep-candidate', 'last-close', 0));
     }
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+  }
+
+  // First connect / last disconnect / wake -> RoomRegistry (in the partykit-test worker)
+  private reportToRegistry(event: RoomEvent, room: string, connections: number, log: Logger) {
+    log.debug('registry.reporting', { roomEvent: event });
+    this.state.waitUntil(reportRoom(this.env.ROOM_REGISTRY, {
+      kind: 'raw-test-do',
+      name: room,
+      event,
+      connections,
+      docSize: null
+    }, log));
   }
 
   async webSocketError(ws: WebSocket, error: unknown) {
-    console.log('[ERROR] WebSocket error:', error);
+    let attachment: any = null;
+    try {
+      attachment = ws.deserializeAttachment();
+    } catch {}
+    this.eventLog(attachment?.room, attachment?.id).error('websocket.error', { error });
   }
 }
@@ -0,0 +1,220 @@
+/**
+ * Custom message definitions shared by YjsPartyServer and YjsPartyProvider
+ *
+ * MESSAGE_CUSTOM payloads are JSON: { type, data?, timestamp? }. This file
+ * holds a tiny schema DSL (zod-style, no dependencies) and the schemas for
+ * the messages clients may send. The server validates incoming data against
+ * them before a handler runs; the provider uses the same definitions to type
+ * (and check) what it sends.
+ *
+ * Imported by relative path from both partykit-test/ and client/, so it must
+ * not import any package.
+ */
+
+// ─── Schema DSL ─────────────────────────────────────────────────────────────
+
+export class SchemaError extends Error {
+  constructor(public path: string, message: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'SchemaError';
+  }
+}
+
+export interface Schema<T> {
+  /** Returns the validated value or throws SchemaError */
+  parse(value: unknown, path?: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function schema<T>(parse: (value: unknown, path: string) => T): Schema<T> {
+  return { parse: (value, path = '') => parse(value, path) };
+}
+
+function describe(value: unknown): string {
+  return value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+}
+
+export const v = {
+  unknown: (): Schema<unknown> => schema(value => value),
+
+  string: (opts: { min?: number; max?: number; pattern?: RegExp } = {}): Schema<string> =>
+    schema((value, path) => {
+      if (typeof value !== 'string') throw new SchemaError(path, `expected string, got ${describe(value)}`);
+      if (opts.min !== undefined && value.length < opts.min) throw new SchemaError(path, `must be at least ${opts.min} characters`);
+      if (opts.max !== undefined && value.length > opts.max) throw new SchemaError(path, `must be at most ${opts.max} characters`);
+      if (opts.pattern && !opts.pattern.test(value)) throw new SchemaError(path, `must match ${opts.pattern}`);
+      return value;
+    }),
+
+  number: (opts: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> =>
+    schema((value, path) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaError(path, `expected number, got ${describe(value)}`);
+      if (opts.integer && !Number.isInteger(value)) throw new SchemaError(path, 'must be an integer');
+      if (opts.min !== undefined && value < opts.min) throw new SchemaError(path, `must be >= ${opts.min}`);
+      if (opts.max !== undefined && value > opts.max) throw new SchemaError(path, `must be <= ${opts.max}`);
+      return value;
+    }),
+
+  boolean: (): Schema<boolean> =>
+    schema((value, path) => {
+      if (typeof value !== 'boolean') throw new SchemaError(path, `expected boolean, got ${describe(value)}`);
+      return value;
+    }),
+
+  enum: <L extends string>(...values: L[]): Schema<L> =>
+    schema((value, path) => {
+      if (!values.includes(value as L)) throw new SchemaError(path, `expected one of ${values.join(', ')}`);
+      return value as L;
+    }),
+
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> =>
+    schema((value, path) => (value === undefined ? undefined : inner.parse(value, path))),
+
+  nullable: <T>(inner: Schema<T>): Schema<T | null> =>
+    schema((value, path) => (value === null ? null : inner.parse(value, path))),
+
+  array: <T>(item: Schema<T>, opts: { max?: number } = {}): Schema<T[]> =>
+    schema((value, path) => {
+      if (!Array.isArray(value)) throw new SchemaError(path, `expected array, got ${describe(value)}`);
+      if (opts.max !== undefined && value.length > opts.max) throw new SchemaError(path, `must have at most ${opts.max} items`);
+      return value.map((entry, i) => item.parse(entry, `${path}[${i}]`));
+    }),
+
+  /** Unknown keys are dropped */
+  object: <Shape extends Record<string, Schema<unknown>>>(shape: Shape): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> =>
+    schema((value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new SchemaError(path, `expected object, got ${describe(value)}`);
+      }
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(shape)) {
+        const parsed = shape[key].parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+        if (parsed !== undefined) result[key] = parsed;
+      }
+      return result as { [K in keyof Shape]: Infer<Shape[K]> };
+    }),
+
+  record: <T>(item: Schema<T>): Schema<Record<string, T>> =>
+    schema((value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new SchemaError(path, `expected object, got ${describe(value)}`);
+      }
+      const result: Record<string, T> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        result[key] = item.parse(entry, path ? `${path}.${key}` : key);
+      }
+      return result;
+    })
+};
+
+// ─── Message definitions ────────────────────────────────────────────────────
+
+export interface CustomMessage<T extends string = string, D = any> {
+  type: T;
+  data?: D;
+  timestamp?: string;
+}
+
+export const MAX_USER_NAME_LENGTH = 64;
+export const MAX_AVATAR_URL_LENGTH = 512;
+
+export const helloSchema = v.object({
+  name: v.string({ min: 1, max: MAX_USER_NAME_LENGTH, pattern: /\S/ }),
+  color: v.string({ pattern: /^#[0-9a-f]{3}([0-9a-f]{3})?$/i }),
+  profile_picture_url: v.optional(v.nullable(v.string({ max: MAX_AVATAR_URL_LENGTH, pattern: /^https?:\/\// })))
+});
+
+/** Route a payload to one connection, or to every connection of a user (set exactly one) */
+export const directSchema = v.object({
+  connectionId: v.optional(v.string({ min: 1, max: 128 })),
+  userId: v.optional(v.string({ min: 1, max: 256 })),
+  payload: v.unknown()
+});
+
+export type DirectTarget = { connectionId: string } | { userId: string };
+
+/** data of a 'direct' message as delivered to its target */
+export interface DirectDelivery {
+  from: { connectionId: string; userId: string | null; name: string | null };
+  payload: unknown;
+}
+
+/** data of a 'room-config' message - the room's persisted config and mode */
+export interface RoomConfigSnapshot {
+  config: unknown;
+  mode: unknown;
+  version: number;  // Bumped on every change, 0 = never set
+  updatedAt: string | null;
+  updatedBy: string | null;  // User id, connection id or 'http'
+}
+
+/** Messages a client may send, and the schema their `data` must satisfy */
+export const clientMessageSchemas = {
+  hello: helloSchema,
+  direct: directSchema,
+  ping: v.unknown(),
+  config: v.unknown(),
+  mode: v.unknown()
+};
+
+export type ClientMessageType = keyof typeof clientMessageSchemas;
+
+export type ClientMessageData<K extends ClientMessageType> = Infer<(typeof clientMessageSchemas)[K]>;
+
+/** A client message with `data` typed from its schema (optional if the schema accepts undefined) */
+export type ClientMessage<K extends ClientMessageType = ClientMessageType> = {
+  [P in K]: undefined extends ClientMessageData<P>
+    ? CustomMessage<P, ClientMessageData<P>>
+    : CustomMessage<P, ClientMessageData<P>> & { data: ClientMessageData<P> };
+}[K];
+
+/** Messages the server sends (in addition to relaying config/mode) */
+export type ServerMessageType =
+  | 'pong'
+  | 'connection-count'
+  | 'read-only'
+  | 'error'
+  | 'rate-limit'
+  | 'direct'
+  | 'config'
+  | 'mode'
+  | 'room-config'
+  | 'reset'
+  | 'compacted'
+  | 'protocol'
+  | 'saved';
+
+/** data of a 'compacted' message - tombstones were dropped on the server, item ids are unchanged */
+export interface CompactionNotice {
+  beforeBytes: number;
+  afterBytes: number;
+  deletedLength: number;
+  trigger: 'manual' | 'alarm';
+}
+
+/**
+ * data of a 'saved' message - what the server has written to storage. Sent
+ * on connect (before sync step 1) and after every flush. The document is
+ * saved on the server once this state vector covers the local one.
+ */
+export interface SavedNotice {
+  epoch: number;  // Reset epoch of the server's document
+  stateVector: string;  // Base64 Y.encodeStateVector of the persisted document
+}
+
+/** data of a 'reset' message - the room was cleared, discard the local doc and resync */
+export interface ResetNotice {
+  epoch: number;  // Increments with every reset
+  backup: string | null;  // Version id of the pre-reset snapshot
+  reason: string;
+}
+
+/**
+ * Validate a client message against its schema. Returns the parsed data, or
+ * throws SchemaError. Types without a schema are passed through untouched.
+ */
+export function parseClientMessageData(type: string, data: unknown): unknown {
+  const messageSchema = (clientMessageSchemas as Record<string, Schema<unknown>>)[type];
+  return messageSchema ? messageSchema.parse(data, 'data') : data;
+}
@@ -0,0 +1,36 @@
+/**
+ * GET /blame response, shared by YjsPartyServer and the client
+ *
+ * Ranges are ProseMirror positions in the `prosemirror` fragment as the
+ * server sees it, in document order, with adjacent ranges of the same author
+ * merged. Only text and leaf nodes (hard break, horizontal rule) are
+ * covered - element boundaries are skipped, so ranges in different
+ * paragraphs never touch.
+ *
+ * Imported by relative path from partykit-test/ and client/, so it must not
+ * import any package.
+ */
+
+// Where an edit came from: a connected client, or a server-side update
+export type AttributionOrigin = 'client' | 'import' | 'version-restore';
+
+export interface AttributionAuthor {
+  userId: string | null;  // From the auth token, if any
+  name: string;
+  color: string | null;
+  origin: AttributionOrigin;
+}
+
+export interface BlameRange {
+  from: number;
+  to: number;
+  text: string;  // Text covered by the range ('' for leaf nodes)
+  author: number | null;  // Index into Blame.authors, null = written before attribution was recorded
+  at: string | null;  // Latest edit in the range (to within a minute)
+}
+
+export interface Blame {
+  authors: AttributionAuthor[];
+  ranges: BlameRange[];
+  timestamp: string;
+}
@@ -0,0 +1,262 @@
+/**
+ * Hibernation telemetry ledger, shared by every Durable Object in this repo
+ *
+ * Console banners only tell us an instance is young, and instance fields like
+ * lastMessageAt start from zero after every wake. The ledger writes events to
+ * DO storage instead, so they survive the instance and can be queried:
+ *
+ *   hibernation-ledger:meta              -> LedgerMeta (last event, its instance)
+ *   hibernation-ledger:event:0000000001  -> LedgerEvent
+ *
+ * Event types:
+ *   - wake             first event of a new instance. hibernated = the previous
+ *                      instance still had open connections (sockets survived,
+ *                      so it was hibernation, not a cold start); sleptMs = time
+ *                      since the previous instance's last event (an upper bound
+ *                      - it may have been evicted later than that)
+ *   - connect / close  with the connection count afterwards
+ *   - sleep-candidate  the last connection closed - nothing keeps the object alive
+ *   - message          coalesced: at most one entry per messageSampleMs, with
+ *                      the number of messages since the previous entry
+ *
+ * Writes are queued so ids stay in order; record() never throws. Only the
+ * newest `retention` events are kept (pruned every 50 events).
+ *
+ * Imported by relative path from all three workers, so it must not import
+ * any package - storage is typed structurally.
+ */
+
+import { Logger } from './logger';
+
+export type LedgerEventType = 'wake' | 'sleep-candidate' | 'connect' | 'close' | 'message';
+
+export interface LedgerEvent {
+  id: number;
+  type: LedgerEventType;
+  at: string;
+  trigger: string;  // What caused it (for wake: what woke the instance)
+  instanceId: string;
+  instanceAgeMs: number;
+  connections: number;  // Open connections after the event
+  detail?: Record<string, unknown>;
+}
+
+export interface LedgerMeta {
+  seq: number;
+  lastEventAt: number;
+  lastConnections: number;
+  instanceId: string;
+}
+
+export interface LedgerSummary {
+  wakes: number;
+  hibernationWakes: number;
+  coldStarts: number;
+  avgSleptMs: number | null;
+  maxSleptMs: number | null;
+}
+
+/** The parts of DurableObjectStorage the ledger uses */
+export interface LedgerStorage {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  put(entries: Record<string, unknown>): Promise<void>;
+  list<T = unknown>(options?: { prefix?: string; start?: string; end?: string; limit?: number; reverse?: boolean }): Promise<Map<string, T>>;
+  delete(keys: string[]): Promise<number>;
+}
+
+export interface HibernationLedgerOptions {
+  prefix?: string;
+  retention?: number;
+  messageSampleMs?: number;
+  log?: Logger;
+}
+
+const DELETE_BATCH_SIZE = 128; // DO storage delete() accepts at most 128 keys
+
+export class HibernationLedger {
+  readonly instanceId = crypto.randomUUID();
+  private instanceStartedAt = Date.now();
+  private prefix: string;
+  private retention: number;
+  private messageSampleMs: number;
+  private log: Logger;
+
+  private meta: Promise<LedgerMeta> | null = null;
+  private previous: LedgerMeta | null = null;  // As left by the previous instance
+  private wakeRecorded = false;
+  private queue: Promise<void> = Promise.resolve();
+  private pendingMessages = 0;
+  private lastMessageRecordAt = 0;
+
+  constructor(private storage: LedgerStorage, private server: string, options: HibernationLedgerOptions = {}) {
+    this.prefix = options.prefix ?? 'hibernation-ledger:';
+    this.retention = options.retention ?? 500;
+    this.messageSampleMs = options.messageSampleMs ?? 10_000;
+    this.log = options.log ?? new Logger('info', { component: 'hibernation-ledger' });
+  }
+
+  /**
+   * Queue an event. The returned promise resolves once it is stored (and
+   * never rejects), so callers may await it or ignore it.
+   */
+  record(type: Exclude<LedgerEventType, 'wake'>, trigger: string, connections: number, detail?: Record<string, unknown>): Promise<void> {
+    const at = Date.now();
+    return this.enqueue(() => this.write({ type, trigger, connections, at, detail }));
+  }
+
+  /**
+   * Count a message; only every messageSampleMs (and the first one of an
+   * instance) becomes an entry, so chatty rooms don't write on every keystroke.
+   */
+  recordMessage(trigger: string, connections: number): Promise<void> {
+    this.pendingMessages++;
+    const now = Date.now();
+    if (this.lastMessageRecordAt > 0 && now - this.lastMessageRecordAt < this.messageSampleMs) {
+      return this.queue;
+    }
+    this.lastMessageRecordAt = now;
+    const count = this.pendingMessages;
+    this.pendingMessages = 0;
+    return this.record('message', trigger, connections, { count });
+  }
+
+  /**
+   * Make sure this instance's wake is recorded, for wake-ups that aren't one
+   * of the recorded event types (alarms).
+   */
+  recordWake(trigger: string, connections: number): Promise<void> {
+    if (this.wakeRecorded) return this.queue;
+    return this.enqueue(() => this.write({ type: null, trigger, connections, at: Date.now() }));
+  }
+
+  /** What the previous instance left behind (null = none, or nothing recorded yet) */
+  async previousInstance(): Promise<LedgerMeta | null> {
+    await this.loadMeta();
+    return this.previous;
+  }
+
+  /**
+   * Newest events first (optionally one type only) plus a summary of the wakes among them.
+   */
+  async history(options: { limit?: number; type?: LedgerEventType } = {}) {
+    await this.queue;
+    const requested = Number.isFinite(options.limit) ? options.limit! : 100;
+    const limit = Math.min(Math.max(requested, 1), this.retention);
+    const stored = await this.storage.list<LedgerEvent>({
+      prefix: this.prefix + 'event:',
+      reverse: true,
+      // Filtering by type has to look at everything kept (at most retention + 50)
+      limit: options.type ? undefined : limit
+    });
+    const events = Array.from(stored.values())
+      .filter(event => !options.type || event.type === options.type)
+      .slice(0, limit);
+
+    return {
+      server: this.server,
+      instanceId: this.instanceId,
+      instanceStartedAt: new Date(this.instanceStartedAt).toISOString(),
+      summary: this.summarize(events),
+      events
+    };
+  }
+
+  private summarize(events: LedgerEvent[]): LedgerSummary {
+    const wakes = events.filter(event => event.type === 'wake');
+    const slept = wakes
+      .map(event => event.detail?.sleptMs)
+      .filter((ms): ms is number => typeof ms === 'number');
+    return {
+      wakes: wakes.length,
+      hibernationWakes: wakes.filter(event => event.detail?.hibernated === true).length,
+      coldStarts: wakes.filter(event => event.detail?.hibernated === false).length,
+      avgSleptMs: slept.length > 0 ? Math.round(slept.reduce((sum, ms) => sum + ms, 0) / slept.length) : null,
+      maxSleptMs: slept.length > 0 ? Math.max(...slept) : null
+    };
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue
+      .then(task)
+      .catch(e => this.log.error('ledger.record-failed', { error: e }));
+    return this.queue;
+  }
+
+  private loadMeta(): Promise<LedgerMeta> {
+    this.meta ??= this.storage.get<LedgerMeta>(this.prefix + 'meta').then(stored => {
+      this.previous = stored ?? null;
+      return stored ? { ...stored } : { seq: 0, lastEventAt: 0, lastConnections: 0, instanceId: '' };
+    });
+    return this.meta;
+  }
+
+  private async write(event: {
+    type: Exclude<LedgerEventType, 'wake'> | null;
+    trigger: string;
+    connections: number;
+    at: number;
+    detail?: Record<string, unknown>;
+  }) {
+    const meta = await this.loadMeta();
+    if (!event.type && this.wakeRecorded) return;
+    const seqBefore = meta.seq;
+    const entries: Record<string, unknown> = {};
+    const add = (type: LedgerEventType, trigger: string, connections: number, at: number, detail?: Record<string, unknown>) => {
+      const entry: LedgerEvent = {
+        id: ++meta.seq,
+        type,
+        at: new Date(at).toISOString(),
+        trigger,
+        instanceId: this.instanceId,
+        instanceAgeMs: at - this.instanceStartedAt,
+        connections,
+        ...(detail ? { detail } : {})
+      };
+      entries[this.eventKey(entry.id)] = entry;
+    };
+
+    if (!this.wakeRecorded) {
+      this.wakeRecorded = true;
+      const previous = this.previous;
+      add('wake', event.type ?? event.trigger, previous?.lastConnections ?? 0, this.instanceStartedAt, {
+        hibernated: (previous?.lastConnections ?? 0) > 0,
+        sleptMs: previous ? this.instanceStartedAt - previous.lastEventAt : null,
+        previousInstanceId: previous?.instanceId ?? null
+      });
+      this.log.info('ledger.wake', {
+        server: this.server,
+        trigger: event.type ?? event.trigger,
+        hibernated: (previous?.lastConnections ?? 0) > 0,
+        sleptMs: previous ? this.instanceStartedAt - previous.lastEventAt : null
+      });
+    }
+    if (event.type) {
+      add(event.type, event.trigger, event.connections, event.at, event.detail);
+    }
+
+    meta.lastEventAt = event.at;
+    meta.lastConnections = event.connections;
+    meta.instanceId = this.instanceId;
+    entries[this.prefix + 'meta'] = meta;
+    await this.storage.put(entries);
+
+    // Prune whenever the sequence passes a multiple of 50
+    if (Math.floor(meta.seq / 50) !== Math.floor(seqBefore / 50)) {
+      await this.prune(meta.seq);
+    }
+  }
+
+  private async prune(seq: number) {
+    const keepFrom = seq - this.retention + 1;
+    if (keepFrom <= 1) return;
+    const expired = await this.storage.list({ prefix: this.prefix + 'event:', end: this.eventKey(keepFrom) });
+    const keys = Array.from(expired.keys());
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      await this.storage.delete(keys.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+
+  private eventKey(id: number): string {
+    return this.prefix + 'event:' + String(id).padStart(10, '0');
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Structured, level-based logger for the Durable Objects
+ *
+ * Every record is one JSON line:
+ *
+ *   {"time":"...","level":"info","event":"connect","component":"yjs-party",
+ *    "room":"test-room","connectionId":"...","correlationId":"...",...fields}
+ *
+ * so Cloudflare logs can be filtered by level, room, connection or event.
+ * The level comes from the LOG_LEVEL var in wrangler.toml (debug | info |
+ * warn | error, default info). The step-by-step diagnostics the servers used
+ * to print as banners are logged at debug.
+ *
+ * Each incoming request, WebSocket event or alarm gets a child logger with
+ * its own correlationId (taken from an X-Correlation-Id header when the
+ * caller sent one), so every line it produces can be grouped together.
+ *
+ * Imported by relative path from all three workers, so it must not import
+ * any package.
+ */
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerEnv {
+  LOG_LEVEL?: string;
+}
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+
+export function logLevelFromEnv(env: LoggerEnv | undefined): LogLevel {
+  const level = env?.LOG_LEVEL?.trim().toLowerCase();
+  return LOG_LEVELS.includes(level as LogLevel) ? (level as LogLevel) : DEFAULT_LOG_LEVEL;
+}
+
+/**
+ * Correlation id for an incoming event: the caller's X-Correlation-Id, else
+ * Cloudflare's ray id, else a fresh random one.
+ */
+export function correlationId(request?: Request): string {
+  return request?.headers.get(CORRELATION_ID_HEADER)
+    ?? request?.headers.get('cf-ray')
+    ?? crypto.randomUUID().slice(0, 8);
+}
+
+// Errors and byte arrays don't survive JSON.stringify on their own
+function jsonValue(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (value instanceof Uint8Array) {
+    return { bytes: value.length };
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value;
+}
+
+export class Logger {
+  constructor(private level: LogLevel, private context: LogFields = {}) {}
+
+  /** Logger with extra fields on every record (room, connectionId, ...) */
+  child(context: LogFields): Logger {
+    return new Logger(this.level, { ...this.context, ...context });
+  }
+
+  /** The correlationId this logger stamps on its records, to forward on outgoing requests */
+  get correlationId(): string | undefined {
+    const id = this.context.correlationId;
+    return typeof id === 'string' ? id : undefined;
+  }
+
+  /** Skip building expensive fields when they'd be dropped anyway */
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
+  }
+
+  debug(event: string, fields?: LogFields) {
+    this.write('debug', event, fields);
+  }
+
+  info(event: string, fields?: LogFields) {
+    this.write('info', event, fields);
+  }
+
+  warn(event: string, fields?: LogFields) {
+    this.write('warn', event, fields);
+  }
+
+  error(event: string, fields?: LogFields) {
+    this.write('error', event, fields);
+  }
+
+  private write(level: LogLevel, event: string, fields?: LogFields) {
+    if (!this.isEnabled(level)) return;
+
+    const record = { time: new Date().toISOString(), level, event, ...this.context, ...fields };
+    let line: string;
+    try {
+      line = JSON.stringify(record, jsonValue);
+    } catch {
+      // Circular or otherwise unserializable fields - keep the envelope
+      line = JSON.stringify({ time: record.time, level, event, ...this.context, unserializable: true });
+    }
+
+    switch (level) {
+      case 'debug': console.debug(line); break;
+      case 'info': console.log(line); break;
+      case 'warn': console.warn(line); break;
+      case 'error': console.error(line); break;
+    }
+  }
+}
+
+export function createLogger(env: LoggerEnv | undefined, context: LogFields = {}): Logger {
+  return new Logger(logLevelFromEnv(env), context);
+}
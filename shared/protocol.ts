@@ -0,0 +1,127 @@
+/**
+ * Wire protocol shared by YjsPartyServer and YjsPartyProvider
+ *
+ * Message type bytes, close codes and the version handshake live here so the
+ * two sides can't drift apart. Client and worker are deployed separately, so
+ * a tab may be running an older (or newer) provider than the server:
+ *
+ *   - The provider announces itself in the WebSocket URL:
+ *       ?protocol=<version>&minProtocol=<oldest server it can talk to>&capabilities=a,b,c
+ *   - The server answers with a 'protocol' custom message (ProtocolAgreement)
+ *     before sync step 1, or closes with CLOSE_PROTOCOL_MISMATCH.
+ *   - A provider that sends no version is a legacy tab (version 1). It is
+ *     still allowed to read but can't write: it doesn't understand 'reset'
+ *     and would push stale content back into the room.
+ *
+ * Bump PROTOCOL_VERSION when the meaning of a message changes. Raise
+ * MIN_PROTOCOL_VERSION / MIN_WRITABLE_PROTOCOL_VERSION when old clients must
+ * be turned away or made read-only.
+ *
+ * Imported by relative path from both partykit-test/ and client/, so it must
+ * not import any package.
+ */
+
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+export const MESSAGE_CUSTOM = 2; // For config, modes, etc.
+// Standard y-websocket only: ask the server for all awareness states
+export const MESSAGE_QUERY_AWARENESS = 3;
+
+// Application close codes (4000-4999 are reserved for applications)
+export const CLOSE_UNAUTHORIZED = 4001; // Missing, invalid or expired token (like HTTP 401)
+export const CLOSE_RATE_LIMITED = 4029; // Repeatedly exceeded rate limits (like HTTP 429)
+export const CLOSE_PROTOCOL_MISMATCH = 4426; // No common protocol version (like HTTP 426 Upgrade Required)
+
+export const PROTOCOL_VERSION = 2;
+// Oldest client version the server accepts at all
+export const MIN_PROTOCOL_VERSION = 1;
+// Oldest client version that may write to the document
+export const MIN_WRITABLE_PROTOCOL_VERSION = 2;
+// Version assumed for clients that don't announce one
+export const LEGACY_PROTOCOL_VERSION = 1;
+
+/**
+ * Wire format of a connection (?wire=...). 'y-websocket' is the standard
+ * binary y-protocols framing used by y-websocket / y-partykit providers:
+ * awareness is binary, message 2 means auth and there are no custom messages
+ * and no version handshake.
+ */
+export const WIRE_FORMATS = ['custom', 'y-websocket'] as const;
+
+export type WireFormat = (typeof WIRE_FORMATS)[number];
+
+/** Optional features a side understands - only the common ones are used */
+export const CAPABILITIES = ['hello', 'direct', 'room-config', 'reset', 'compaction', 'saved'] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+/** What a provider announces */
+export interface ProtocolOffer {
+  version: number;
+  minVersion: number;
+  capabilities: string[];
+}
+
+/** data of the server's 'protocol' message */
+export interface ProtocolAgreement {
+  version: number;  // Version used on this connection
+  serverVersion: number;
+  capabilities: Capability[];
+  readOnly: boolean;  // Downgraded to read-only because the client is too old to write
+}
+
+export type ProtocolNegotiation =
+  | ({ ok: true } & ProtocolAgreement)
+  | { ok: false; reason: string };
+
+/** URL parameters for an offer */
+export function protocolOfferParams(offer: ProtocolOffer): Record<string, string> {
+  return {
+    protocol: String(offer.version),
+    minProtocol: String(offer.minVersion),
+    capabilities: offer.capabilities.join(',')
+  };
+}
+
+/** Read an offer from URL parameters; null = legacy client that announced nothing */
+export function parseProtocolOffer(params: URLSearchParams): ProtocolOffer | null {
+  const version = params.get('protocol');
+  if (version === null) return null;
+  return {
+    version: parseInt(version, 10),
+    minVersion: parseInt(params.get('minProtocol') ?? version, 10),
+    capabilities: (params.get('capabilities') ?? '').split(',').filter(Boolean)
+  };
+}
+
+/**
+ * Server side of the handshake: accept (same or newer client - the server's
+ * version is used), downgrade (older client - its version is used, read-only
+ * below MIN_WRITABLE_PROTOCOL_VERSION) or reject.
+ */
+export function negotiateProtocol(offer: ProtocolOffer | null): ProtocolNegotiation {
+  const { version, minVersion, capabilities } = offer ?? {
+    version: LEGACY_PROTOCOL_VERSION,
+    minVersion: LEGACY_PROTOCOL_VERSION,
+    capabilities: []
+  };
+
+  if (!Number.isInteger(version) || !Number.isInteger(minVersion) || minVersion > version) {
+    return { ok: false, reason: 'Malformed protocol version' };
+  }
+  if (version < MIN_PROTOCOL_VERSION) {
+    return { ok: false, reason: `Client protocol v${version} is no longer supported (server needs v${MIN_PROTOCOL_VERSION}+) - reload the page` };
+  }
+  if (minVersion > PROTOCOL_VERSION) {
+    return { ok: false, reason: `Server protocol v${PROTOCOL_VERSION} is too old for this client (needs v${minVersion}+)` };
+  }
+
+  const agreed = Math.min(version, PROTOCOL_VERSION);
+  return {
+    ok: true,
+    version: agreed,
+    serverVersion: PROTOCOL_VERSION,
+    capabilities: CAPABILITIES.filter(capability => capabilities.includes(capability)),
+    readOnly: agreed < MIN_WRITABLE_PROTOCOL_VERSION
+  };
+}
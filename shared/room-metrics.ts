@@ -0,0 +1,304 @@
+/**
+ * Room-level counters in OpenMetrics text format, shared by every Durable Object
+ *
+ * Each server counts what passes through it and serves GET .../metrics for a
+ * Prometheus scrape:
+ *
+ *   room_messages_received_total{type}        sync_step1 | sync_step2 | sync_update |
+ *                                             awareness | query_awareness | custom | other
+ *   room_received_bytes_total / room_sent_bytes_total
+ *   room_broadcasts_total
+ *   room_wakeups_total{kind}                  hibernation | cold_start
+ *   room_persistence_writes_total{kind}       and room_persistence_write_seconds (histogram)
+ *   room_closes_total{code}
+ *   room_connections                          gauge, at scrape time
+ *
+ * Every sample carries `server` and `room` labels so several rooms can be
+ * scraped into one Prometheus.
+ *
+ * The counters live in memory and in one storage key. Per-message counters
+ * (messages, bytes, broadcasts) are written at most every persistIntervalMs,
+ * like the ledger's message samples, so traffic doesn't turn into storage
+ * writes; wakes, closes and persistence writes are written right away and
+ * take everything pending with them. What arrived after the last write is
+ * lost if the instance goes away without a close or another write. Like the
+ * ledger, writes are queued and never reject.
+ *
+ * Imported by relative path from all three workers, so it must not import
+ * any package - storage is typed structurally.
+ */
+
+import { MESSAGE_AWARENESS, MESSAGE_CUSTOM, MESSAGE_QUERY_AWARENESS, MESSAGE_SYNC } from './protocol';
+import { Logger } from './logger';
+
+export const METRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export type ReceivedMessageType =
+  | 'sync_step1'
+  | 'sync_step2'
+  | 'sync_update'
+  | 'awareness'
+  | 'query_awareness'
+  | 'custom'
+  | 'other';
+
+export type WakeKind = 'hibernation' | 'cold_start';
+
+// Upper bounds (seconds) of the persistence latency histogram buckets
+const LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+
+interface Histogram {
+  buckets: number[];  // Non-cumulative counts per LATENCY_BUCKETS entry, plus +Inf
+  sum: number;
+  count: number;
+}
+
+export interface MetricsState {
+  messagesReceived: Record<string, number>;
+  receivedBytes: number;
+  sentBytes: number;
+  broadcasts: number;
+  wakeups: Record<string, number>;
+  persistenceWrites: Record<string, number>;
+  persistenceLatency: Histogram;
+  closes: Record<string, number>;
+  createdAt: number;  // First counter ever written (OpenMetrics _created)
+}
+
+/** The parts of DurableObjectStorage the metrics use */
+export interface MetricsStorage {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  put(key: string, value: unknown): Promise<void>;
+}
+
+export interface RoomMetricsOptions {
+  key?: string;
+  persistIntervalMs?: number;
+  log?: Logger;
+}
+
+/**
+ * Classify an incoming WebSocket message by its y-protocols type byte (all
+ * our message types fit in one varuint byte). Text frames are custom messages.
+ */
+export function receivedMessageType(message: string | ArrayBuffer | ArrayBufferView): ReceivedMessageType {
+  if (typeof message === 'string') return 'custom';
+  const bytes = message instanceof ArrayBuffer
+    ? new Uint8Array(message)
+    : new Uint8Array(message.buffer, message.byteOffset, message.byteLength);
+  switch (bytes[0]) {
+    case MESSAGE_SYNC:
+      return bytes[1] === 0 ? 'sync_step1' : bytes[1] === 1 ? 'sync_step2' : bytes[1] === 2 ? 'sync_update' : 'other';
+    case MESSAGE_AWARENESS:
+      return 'awareness';
+    case MESSAGE_QUERY_AWARENESS:
+      return 'query_awareness';
+    case MESSAGE_CUSTOM:
+      return 'custom';
+    default:
+      return 'other';
+  }
+}
+
+/** Size of a WebSocket message on the wire (text counted as UTF-8) */
+export function messageBytes(message: string | ArrayBuffer | ArrayBufferView): number {
+  return typeof message === 'string' ? new TextEncoder().encode(message).length : message.byteLength;
+}
+
+function emptyState(now: number): MetricsState {
+  return {
+    messagesReceived: {},
+    receivedBytes: 0,
+    sentBytes: 0,
+    broadcasts: 0,
+    wakeups: {},
+    persistenceWrites: {},
+    persistenceLatency: { buckets: new Array(LATENCY_BUCKETS.length + 1).fill(0), sum: 0, count: 0 },
+    closes: {},
+    createdAt: now
+  };
+}
+
+function addCounts(into: Record<string, number>, from: Record<string, number>) {
+  for (const [label, value] of Object.entries(from)) {
+    into[label] = (into[label] ?? 0) + value;
+  }
+}
+
+// Label values may contain anything - escape per the text format
+function labelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+export class RoomMetrics {
+  private key: string;
+  private persistIntervalMs: number;
+  private log: Logger;
+  private state = emptyState(Date.now());
+  private loaded: Promise<void> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private writeQueued = false;
+  private lastPersistAt = 0;
+
+  constructor(private storage: MetricsStorage, private server: string, options: RoomMetricsOptions = {}) {
+    this.key = options.key ?? 'room-metrics';
+    this.persistIntervalMs = options.persistIntervalMs ?? 10_000;
+    this.log = options.log ?? new Logger('info', { component: 'room-metrics' });
+  }
+
+  // Every mutator returns the pending write, for ctx.waitUntil()
+
+  messageReceived(type: ReceivedMessageType, bytes: number): Promise<void> {
+    this.state.messagesReceived[type] = (this.state.messagesReceived[type] ?? 0) + 1;
+    this.state.receivedBytes += bytes;
+    return this.persistSampled();
+  }
+
+  /** Bytes sent to `recipients` connections (a broadcast counts once per recipient) */
+  sent(bytes: number, recipients = 1): Promise<void> {
+    this.state.sentBytes += bytes * recipients;
+    return this.persistSampled();
+  }
+
+  /** One broadcast - its bytes are counted with sent() */
+  broadcast(): Promise<void> {
+    this.state.broadcasts++;
+    return this.persistSampled();
+  }
+
+  /** A new instance started - with open connections it woke from hibernation */
+  wake(kind: WakeKind): Promise<void> {
+    this.state.wakeups[kind] = (this.state.wakeups[kind] ?? 0) + 1;
+    return this.persist();
+  }
+
+  persistenceWrite(kind: string, seconds: number): Promise<void> {
+    this.state.persistenceWrites[kind] = (this.state.persistenceWrites[kind] ?? 0) + 1;
+    const histogram = this.state.persistenceLatency;
+    const bucket = LATENCY_BUCKETS.findIndex(bound => seconds <= bound);
+    histogram.buckets[bucket === -1 ? LATENCY_BUCKETS.length : bucket]++;
+    histogram.sum += seconds;
+    histogram.count++;
+    return this.persist();
+  }
+
+  /**
+   * Run a storage write and record it with its latency. Errors propagate;
+   * failed writes aren't counted.
+   */
+  async timePersistence<T>(kind: string, write: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    const result = await write();
+    this.persistenceWrite(kind, (Date.now() - started) / 1000);
+    return result;
+  }
+
+  closed(code: number): Promise<void> {
+    const label = String(code);
+    this.state.closes[label] = (this.state.closes[label] ?? 0) + 1;
+    return this.persist();
+  }
+
+  /** Everything in OpenMetrics text format, ending with # EOF */
+  async render(labels: { room: string; connections: number }): Promise<string> {
+    await this.load();
+    await this.queue;
+    const state = this.state;
+    const base = `server="${labelValue(this.server)}",room="${labelValue(labels.room)}"`;
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string, unit?: string) => {
+      lines.push(`# TYPE ${name} ${type}`);
+      if (unit) lines.push(`# UNIT ${name} ${unit}`);
+      lines.push(`# HELP ${name} ${help}`);
+    };
+    const labelled = (name: string, label: string, counts: Record<string, number>) => {
+      for (const [value, count] of Object.entries(counts).sort(([a], [b]) => a.localeCompare(b))) {
+        lines.push(`${name}{${base},${label}="${labelValue(value)}"} ${count}`);
+      }
+    };
+    const created = state.createdAt / 1000;
+
+    family('room_messages_received', 'counter', 'WebSocket messages received, by message type.');
+    labelled('room_messages_received_total', 'type', state.messagesReceived);
+
+    family('room_received_bytes', 'counter', 'WebSocket bytes received.', 'bytes');
+    lines.push(`room_received_bytes_total{${base}} ${state.receivedBytes}`);
+    lines.push(`room_received_bytes_created{${base}} ${created}`);
+
+    family('room_sent_bytes', 'counter', 'WebSocket bytes sent, counted once per recipient.', 'bytes');
+    lines.push(`room_sent_bytes_total{${base}} ${state.sentBytes}`);
+    lines.push(`room_sent_bytes_created{${base}} ${created}`);
+
+    family('room_broadcasts', 'counter', 'Messages broadcast to the room.');
+    lines.push(`room_broadcasts_total{${base}} ${state.broadcasts}`);
+    lines.push(`room_broadcasts_created{${base}} ${created}`);
+
+    family('room_wakeups', 'counter', 'Instance starts: hibernation = connections were still open, cold_start = none.');
+    labelled('room_wakeups_total', 'kind', state.wakeups);
+
+    family('room_persistence_writes', 'counter', 'Document writes to Durable Object storage, by kind.');
+    labelled('room_persistence_writes_total', 'kind', state.persistenceWrites);
+
+    family('room_persistence_write_seconds', 'histogram', 'Latency of document writes to Durable Object storage.', 'seconds');
+    let cumulative = 0;
+    LATENCY_BUCKETS.forEach((bound, i) => {
+      cumulative += state.persistenceLatency.buckets[i];
+      lines.push(`room_persistence_write_seconds_bucket{${base},le="${bound}"} ${cumulative}`);
+    });
+    cumulative += state.persistenceLatency.buckets[LATENCY_BUCKETS.length];
+    lines.push(`room_persistence_write_seconds_bucket{${base},le="+Inf"} ${cumulative}`);
+    lines.push(`room_persistence_write_seconds_sum{${base}} ${state.persistenceLatency.sum}`);
+    lines.push(`room_persistence_write_seconds_count{${base}} ${state.persistenceLatency.count}`);
+    lines.push(`room_persistence_write_seconds_created{${base}} ${created}`);
+
+    family('room_closes', 'counter', 'WebSocket closes, by close code.');
+    labelled('room_closes_total', 'code', state.closes);
+
+    family('room_connections', 'gauge', 'Open WebSocket connections.');
+    lines.push(`room_connections{${base}} ${labels.connections}`);
+
+    lines.push('# EOF');
+    return lines.join('\n') + '\n';
+  }
+
+  /** Merge what earlier instances stored into the counters of this one */
+  private load(): Promise<void> {
+    this.loaded ??= this.storage.get<MetricsState>(this.key).then(stored => {
+      if (!stored) return;
+      const current = this.state;
+      addCounts(current.messagesReceived, stored.messagesReceived);
+      current.receivedBytes += stored.receivedBytes;
+      current.sentBytes += stored.sentBytes;
+      current.broadcasts += stored.broadcasts;
+      addCounts(current.wakeups, stored.wakeups);
+      addCounts(current.persistenceWrites, stored.persistenceWrites);
+      stored.persistenceLatency.buckets.forEach((count, i) => { current.persistenceLatency.buckets[i] += count; });
+      current.persistenceLatency.sum += stored.persistenceLatency.sum;
+      current.persistenceLatency.count += stored.persistenceLatency.count;
+      addCounts(current.closes, stored.closes);
+      current.createdAt = stored.createdAt;
+    });
+    return this.loaded;
+  }
+
+  // Per-message counters: write at most every persistIntervalMs
+  private persistSampled(): Promise<void> {
+    if (Date.now() - this.lastPersistAt < this.persistIntervalMs) return this.queue;
+    return this.persist();
+  }
+
+  // One write per turn: changes made before the queued write runs go with it
+  private persist(): Promise<void> {
+    if (this.writeQueued) return this.queue;
+    this.writeQueued = true;
+    this.lastPersistAt = Date.now();
+    this.queue = this.queue
+      .then(() => this.load())
+      .then(() => {
+        this.writeQueued = false;
+        return this.storage.put(this.key, this.state);
+      })
+      .catch(e => this.log.error('metrics.persist-failed', { error: e }));
+    return this.queue;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Room registry protocol shared by the rooms and the RoomRegistry Durable Object
+ *
+ * Rooms (YjsPartyServer, PartyKitTestServer, RawTestDO) report to a single
+ * RoomRegistry instance on three events only - first connect, last
+ * disconnect and hibernation wake - so reporting never keeps a room awake
+ * and the registry isn't hit on every message:
+ *
+ *   POST /report  RoomReport  (internal, rooms only)
+ *   GET  /rooms               (operator view, admin token, routed by the partykit-test worker)
+ *
+ * RoomRegistry lives in the partykit-test worker; raw-cloudflare binds to it
+ * with script_name. Reporting is best effort: a room without the
+ * ROOM_REGISTRY binding, or a failed report, never affects its clients.
+ *
+ * Imported by relative path from partykit-test/ and raw-cloudflare/, so it
+ * must not import any package.
+ */
+
+import { CORRELATION_ID_HEADER, Logger } from './logger';
+
+export const ROOM_REGISTRY_NAME = 'room-registry';
+
+// Which Durable Object class a room belongs to (party name for PartyServer rooms)
+export type RoomKind = 'yjs-party' | 'partykit-test-party' | 'raw-test-do';
+
+export type RoomEvent = 'connect' | 'disconnect' | 'wake';
+
+export interface RoomReport {
+  kind: RoomKind;
+  name: string;
+  event: RoomEvent;
+  connections: number;
+  docSize: number | null;  // Encoded document size, for rooms that have one
+}
+
+/** Minimal shape of the ROOM_REGISTRY binding (a DurableObjectNamespace) */
+export interface RoomRegistryNamespace {
+  idFromName(name: string): unknown;
+  get(id: any): { fetch(input: string, init?: RequestInit): Promise<Response> };
+}
+
+/** Env of a room that reports (the binding is optional) */
+export interface RoomRegistryEnv {
+  ROOM_REGISTRY?: RoomRegistryNamespace;
+}
+
+/**
+ * Send a report to the registry. Never throws - failures are only logged.
+ * The log's correlationId is forwarded with the report.
+ */
+export async function reportRoom(
+  registry: RoomRegistryNamespace | undefined,
+  report: RoomReport,
+  log = new Logger('info', { component: 'room-registry' })
+): Promise<void> {
+  if (!registry) return;
+  try {
+    const stub = registry.get(registry.idFromName(ROOM_REGISTRY_NAME));
+    const response = await stub.fetch('https://room-registry/report', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // The registry logs the report under the same correlationId as the room
+        ...(log.correlationId ? { [CORRELATION_ID_HEADER]: log.correlationId } : {})
+      },
+      body: JSON.stringify(report)
+    });
+    if (!response.ok) {
+      log.warn('registry.report-rejected', { ...report, status: response.status, body: await response.text() });
+    }
+  } catch (e) {
+    log.warn('registry.report-failed', { ...report, error: e });
+  }
+}
@@ -1,166 +1,139 @@
 /**
  * Y-PartyServer Test - Using y-partyserver library with Yjs CRDT
- * 
+ *
  * This tests if hibernation works with Y-PartyServer (Yjs integration).
  * Based on partykit-test but adds Yjs document synchronization.
+ *
+ * Wakes, connects, closes and messages are written to the hibernation ledger
+ * (shared/hibernation-ledger.ts) - GET .../hibernation-history.
+ *
+ * GET .../metrics serves OpenMetrics counters (shared/room-metrics.ts).
+ * YServer sends sync and awareness replies itself, so sent bytes and
+ * broadcasts only cover this class's own connection-count and custom
+ * message broadcasts.
+ *
+ * Logging is structured JSON (shared/logger.ts). The per-message traces
+ * (message type, connection lists, raw API checks, doc state before and after
+ * YServer.handleMessage) are at debug level - LOG_LEVEL = "debug".
  */
 
 import type { Connection, ConnectionContext, WSMessage } from "partyserver";
 import { YServer } from "y-partyserver";
+import { HibernationLedger, type LedgerEventType } from '../../shared/hibernation-ledger';
+import { correlationId, createLogger, type Logger, type LoggerEnv } from '../../shared/logger';
+import { METRICS_CONTENT_TYPE, RoomMetrics, messageBytes, receivedMessageType } from '../../shared/room-metrics';
 
-export class YPartyKitTestServer extends YServer {
+export class YPartyKitTestServer extends YServer<LoggerEnv> {
   static options = {
     hibernate: true  // CRITICAL: Enable hibernation to test it
   };
 
   private instanceCreatedAt = Date.now();
   private lastMessageAt = 0;
+  private log = createLogger(this.env, { component: 'y-party-kit-test-server' });
+  private ledger = new HibernationLedger(this.ctx.storage, 'y-party-kit-test-server', {
+    log: this.log.child({ component: 'hibernation-ledger' })
+  });
+  private metrics = new RoomMetrics(this.ctx.storage, 'y-party-kit-test-server', {
+    log: this.log.child({ component: 'room-metrics' })
+  });
 
   async onStart() {
     const now = Date.now();
     const timeSinceCreation = now - this.instanceCreatedAt;
-    const timeSinceLastMessage = this.lastMessageAt > 0 ? now - this.lastMessageAt : 0;
-    
-    // �🔥🔥 VERY EXPLICIT HIBERNATION DETECTION 🔥🔥🔥
-    console.log('');
-    console.log('🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥');
-    console.log('🔥🔥🔥                                        🔥🔥🔥');
-    console.log('🔥🔥🔥    DURABLE OBJECT WAKE-UP DETECTED     🔥🔥🔥');
-    console.log('🔥🔥🔥         (onStart() called)              🔥🔥🔥');
-    console.log('🔥🔥🔥                                        🔥🔥🔥');
-    console.log('🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥🔥');
-    console.log('');
-    
-    console.log('⏰ Instance created at:', new Date(this.instanceCreatedAt).toISOString());
-    console.log('⏰ Current time:', new Date(now).toISOString());
-    console.log('⏰ Time since instance creation:', (timeSinceCreation / 1000).toFixed(1), 'seconds');
-    
-    if (this.lastMessageAt > 0) {
-      console.log('');
-      console.log('💤 Last message was at:', new Date(this.lastMessageAt).toISOString());
-      console.log('💤 Time since last message:', (timeSinceLastMessage / 1000).toFixed(1), 'seconds');
-      console.log('');
-      console.log('✅ ✅ ✅ HIBERNATION CONFIRMED ✅ ✅ ✅');
-      console.log('✅ Instance was destroyed and recreated!');
-      console.log('✅ Durable Object hibernated for', (timeSinceLastMessage / 1000).toFixed(1), 'seconds');
-      console.log('');
-    }
-    
-    console.log('[ON-START] Y-PartyServer Details:');
-    console.log('  - Server name:', this.name);
-    console.log('  - Timestamp:', new Date().toISOString());
-    console.log('');
-    
+    // lastMessageAt is always 0 here (fresh instance) - ask the ledger what the last instance did
+    const previous = await this.ledger.previousInstance();
+    const timeSinceLastEvent = previous ? now - previous.lastEventAt : 0;
+    const connections = Array.from(this.getConnections());
+    const log = this.eventLog(connections[0]?.server ?? this.name);
+    this.ctx.waitUntil(this.metrics.wake(connections.length > 0 ? 'hibernation' : 'cold_start'));
+
+    // 🔥 Previous instance still had open connections = it hibernated, not a cold start
+    log.info('start', {
+      instanceCreatedAt: new Date(this.instanceCreatedAt).toISOString(),
+      instanceAgeMs: timeSinceCreation,
+      connections: connections.length,
+      hibernationConfirmed: !!previous && previous.lastConnections > 0,
+      previousEventAt: previous ? new Date(previous.lastEventAt).toISOString() : null,
+      // Upper bound - the previous instance may have been evicted later than its last event
+      hibernatedUpToMs: previous && previous.lastConnections > 0 ? timeSinceLastEvent : null,
+      previousConnections: previous?.lastConnections ?? null
+    });
+
     // 🔍 CRITICAL TEST: Check Yjs document state after hibernation
-    console.log('📊 CHECKING YJS DOCUMENT STATE AFTER WAKE:');
     try {
       const docState = this.document.toJSON();
       const stateSize = JSON.stringify(docState).length;
-      console.log('  - Document state size:', stateSize, 'bytes');
-      console.log('  - Document has content?', stateSize > 2 ? '✅ YES' : '❌ NO (empty)');
-      if (stateSize > 2) {
-        console.log('  - 🎉 YJS DOCUMENT STATE SURVIVED HIBERNATION! 🎉');
-      }
+      log.info('start.document', {
+        stateSize,
+        // Content after a wake = the Yjs document survived hibernation
+        hasContent: stateSize > 2
+      });
       if (stateSize > 2) {
-        console.log('[YJS] ✅ Yjs document survived hibernation with data!');
-        console.log('[YJS] Content preview:', JSON.stringify(docState).substring(0, 100));
-      } else {
-        console.log('[YJS] Document is empty (fresh start)');
+        log.debug('start.document-preview', { preview: JSON.stringify(docState).substring(0, 100) });
       }
     } catch (err) {
-      console.log('[YJS] ❌ Error accessing Yjs doc:', err);
+      log.error('start.document-failed', { error: err });
     }
-    
-    // Try to access connections in onStart
-    console.log('\n[ON-START-TEST] Checking connection APIs:');
-    try {
-      const connections = Array.from(this.getConnections());
-      console.log('[ON-START] getConnections() returned:', {
-        count: connections.length,
-        timestamp: new Date().toISOString(),
-        hasConnections: connections.length > 0,
+
+    if (connections.length > 0) {
+      log.debug('start.connections', {
+        connections: connections.map(conn => ({ id: conn.id, server: conn.server }))
       });
-      
-      if (connections.length > 0) {
-        console.log('[ON-START] ✅ Connections found after hibernation wake-up');
-        connections.forEach((conn, i) => {
-          console.log(`[ON-START] Connection ${i + 1}:`, {
-            id: conn.id.substring(0, 12) + '...',
-            server: conn.server
-          });
-        });
-      } else {
-        console.log('[ON-START] No connections (fresh start or all closed)');
-      }
-    } catch (err) {
-      console.log('[ON-START] ❌ Could not access connections:', err);
     }
-    
+
     // Try raw Cloudflare API
-    console.log('\n[ON-START-RAW-API] Testing raw Cloudflare API:');
     try {
-      const rawSockets = this.ctx.getWebSockets();
-      console.log('[ON-START-RAW-API] ctx.getWebSockets():', {
-        count: rawSockets.length,
-        message: 'Raw Cloudflare API accessible!'
-      });
+      log.debug('start.raw-api', { rawSockets: this.ctx.getWebSockets().length });
     } catch (err) {
-      console.log('[ON-START-RAW-API] Error:', err);
+      log.warn('start.raw-api-failed', { error: err });
     }
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
   }
 
   async onConnect(connection: Connection, ctx: ConnectionContext): Promise<void> {
     const timeSinceCreation = Date.now() - this.instanceCreatedAt;
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('[CONNECT] ✅ New WebSocket connection');
-    console.log('[CONNECT] Connection ID:', connection.id.substring(0, 12) + '...');
-    console.log('[CONNECT] Timestamp:', new Date().toISOString());
-    console.log('[CONNECT] Time since instance creation:', timeSinceCreation, 'ms');
-    
-    if (timeSinceCreation < 1000) {
-      console.log('[CONNECT] 🔥 HIBERNATION WAKE - Connecting to fresh instance after hibernation!');
-    }
-    
+    const log = this.eventLog(connection.server, connection, ctx.request);
+
     // CRITICAL: Call parent onConnect FIRST to let Y-PartyServer set up the connection
     await super.onConnect(connection, ctx);
-    
+
     // Get current connection count
     const connections = Array.from(this.getConnections());
     const connectionCount = connections.length;
-    
-    console.log('[CONNECT] Current connections:', connectionCount);
-    console.log('[CONNECT] New connection is included?', connections.some(c => c.id === connection.id) ? '✅' : '❌');
-    
-    // Check for HIBERNATION + NEW CONNECTION scenario
-    if (timeSinceCreation < 1000 && connectionCount > 1) {
-      console.log('[CONNECT] 🔥🔥🔥 CRITICAL TEST: New client joining hibernated room with', connectionCount - 1, 'existing connections');
-    }
-    
+    // Determine mode
+    const mode = connectionCount <= 1 ? 'solo' : 'multi';
+
+    log.info('connect', {
+      connections: connectionCount,
+      mode,
+      instanceAgeMs: timeSinceCreation,
+      // Fresh instance = connecting after hibernation
+      hibernationWake: timeSinceCreation < 1000,
+      // 🔥 CRITICAL TEST: new client joining a hibernated room with existing connections
+      joinedHibernatedRoom: timeSinceCreation < 1000 && connectionCount > 1
+    });
+
     // Verify raw API matches
     try {
       const rawCount = this.ctx.getWebSockets().length;
-      console.log('[CONNECT] Raw API count:', rawCount, rawCount === connectionCount ? '✅ matches' : '❌ mismatch');
+      log.debug('connect.api-check', {
+        newConnectionIncluded: connections.some(c => c.id === connection.id),
+        rawSockets: rawCount,
+        match: rawCount === connectionCount
+      });
     } catch (err) {
-      console.log('[CONNECT] Raw API error:', err);
+      log.warn('connect.raw-api-failed', { error: err });
     }
-    
-    // Determine mode
-    const mode = connectionCount <= 1 ? 'solo' : 'multi';
-    console.log('[CONNECT] Mode:', mode);
-    
-    // 🔍 TEST: Yjs document state on connect
-    console.log('\n[YJS-CONNECT] Yjs document state:');
-    try {
-      const docState = this.document.toJSON();
-      console.log('[YJS-CONNECT] Document content:', JSON.stringify(docState).substring(0, 100));
-      console.log('[YJS-CONNECT] Client will receive this state via Y-PartyServer sync');
-    } catch (err) {
-      console.log('[YJS-CONNECT] Error:', err);
+
+    // 🔍 TEST: Yjs document state on connect (the client receives it via Y-PartyServer sync)
+    if (log.isEnabled('debug')) {
+      try {
+        log.debug('connect.document', { preview: JSON.stringify(this.document.toJSON()).substring(0, 100) });
+      } catch (err) {
+        log.warn('connect.document-failed', { error: err });
+      }
     }
-    
+
     // 🎯 BROADCAST CONNECTION COUNT TO ALL CLIENTS
     const connectionInfo = {
       type: 'connection-count',
@@ -171,20 +144,21 @@ export class YPartyKitTestServer extends YServer {
       hibernationWake: timeSinceCreation < 1000,
       timestamp: new Date().toISOString()
     };
-    console.log('[BROADCAST] Broadcasting to all clients:', connectionInfo);
+    log.debug('broadcast.connection-count', connectionInfo);
     this.broadcast(JSON.stringify(connectionInfo));
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+    this.ctx.waitUntil(this.ledger.record('connect', 'websocket', connectionCount, { connectionId: connection.id }));
   }
 
   override handleMessage(connection: Connection, message: WSMessage): void {
     const now = Date.now();
     const timeSinceLastMessage = this.lastMessageAt > 0 ? now - this.lastMessageAt : 0;
     const timeSinceCreation = now - this.instanceCreatedAt;
-    
+    const log = this.eventLog(connection.server, connection);
+    this.ctx.waitUntil(this.metrics.messageReceived(receivedMessageType(message), messageBytes(message)));
+
     // Check if it's a Yjs sync message (binary) or custom message
     const isYjsMessage = message instanceof ArrayBuffer || ArrayBuffer.isView(message);
-    
+
     // Detect awareness messages (they start with 0x01 and are small ~12 bytes)
     let messageType = 'unknown';
     if (isYjsMessage) {
@@ -194,108 +168,73 @@ export class YPartyKitTestServer extends YServer {
       } else {
         bytes = new Uint8Array(message.buffer, message.byteOffset, message.byteLength);
       }
-      
+
       const size = bytes.length;
       const firstByte = bytes[0];
-      
+
       // Yjs message types:
       // 0x00 = sync step 1 (state vector)
       // 0x01 = sync step 2 (update) or awareness
       // 0x02 = sync step 2 continuation
-      
+
       if (firstByte === 0x01 && size < 20) {
-        messageType = 'AWARENESS (heartbeat)';
+        messageType = 'awareness-heartbeat';
       } else if (firstByte === 0x00) {
-        messageType = 'YJS SYNC (state vector)';
+        messageType = 'sync-state-vector';
       } else if (firstByte === 0x01 || firstByte === 0x02) {
-        messageType = 'YJS UPDATE (content change)';
+        messageType = 'sync-update';
       } else {
-        messageType = 'YJS (unknown type)';
+        messageType = 'yjs-unknown';
       }
-      
-      console.log(`[${messageType}] ${size}B from ${connection.id.substring(0, 8)}... (${timeSinceCreation}ms since wake)`);
+
+      log.debug('message', { type: messageType, bytes: size, instanceAgeMs: timeSinceCreation });
     } else {
-      console.log('[CUSTOM MESSAGE]', message);
+      log.debug('message', { type: 'custom', content: message });
     }
-    
+
     this.lastMessageAt = now;
-    
+    this.ctx.waitUntil(this.ledger.recordMessage('websocket', Array.from(this.getConnections()).length));
+
     // Detect if we just woke from hibernation
     if (timeSinceCreation < 100 && timeSinceLastMessage === 0) {
-      console.log('[MESSAGE] 🆕 First message on fresh instance');
+      log.debug('message.first-on-instance');
     } else if (timeSinceCreation < 1000) {
-      console.log('[MESSAGE] 🔥🔥🔥 HIBERNATION DETECTED: Instance just created but receiving message!');
-      console.log('[MESSAGE] This means DO was evicted and woke up for this message');
+      // Instance just created but receiving a message = the DO was evicted and woke up for it
+      log.info('message.hibernation-wake', { instanceAgeMs: timeSinceCreation });
     }
-    
-    console.log('\n[MESSAGE-COUNT-TEST] Testing connection count APIs:');
+
+    // getConnections() is the ONLY reliable count - compare with the raw API
     const currentConnections = Array.from(this.getConnections());
     const apiCount = currentConnections.length;
-    
-    console.log('[MESSAGE-COUNT] Connection count:', apiCount);
-    console.log('[MESSAGE-COUNT] ✅ Using getConnections() - the ONLY reliable method');
-    
-    // Show all connection IDs
-    if (currentConnections.length > 0) {
-      console.log('\n[MESSAGE-CONNECTIONS] Current connections:');
-      currentConnections.forEach((conn, i) => {
-        const isSender = conn.id === connection.id;
-        console.log(`[MESSAGE-CONNECTIONS] ${i + 1}. ${conn.id.substring(0, 12)}... ${isSender ? '← SENDER' : ''}`);
-      });
-    }
-    
-    // Try raw Cloudflare API
-    console.log('\n[MESSAGE-RAW-API] Testing raw Cloudflare API:');
     try {
-      const rawSockets = this.ctx.getWebSockets();
-      console.log('[MESSAGE-RAW-API] ctx.getWebSockets():', {
-        count: rawSockets.length,
-        matchesPartyServer: rawSockets.length === apiCount
+      const rawCount = this.ctx.getWebSockets().length;
+      log.debug('message.api-check', {
+        connections: apiCount,
+        rawSockets: rawCount,
+        match: rawCount === apiCount,
+        connectionIds: currentConnections.map(c => c.id)
       });
-      if (rawSockets.length !== apiCount) {
-        console.log('[MESSAGE-RAW-API] ❌❌❌ Raw Cloudflare count differs from PartyServer!');
+      if (rawCount !== apiCount) {
+        log.warn('message.api-mismatch', { connections: apiCount, rawSockets: rawCount });
       }
     } catch (err) {
-      console.log('[MESSAGE-RAW-API] Error:', err);
+      log.warn('message.raw-api-failed', { error: err });
     }
-    
-    console.log('\n[YJS-DEBUG] About to call YServer.handleMessage()...');
-    console.log('[YJS-DEBUG] Current Yjs doc state before processing:');
-    try {
-      const docState = this.document.toJSON();
-      console.log('[YJS-DEBUG] Doc content:', JSON.stringify(docState));
-      console.log('[YJS-DEBUG] Doc size:', JSON.stringify(docState).length, 'bytes');
-    } catch (err) {
-      console.log('[YJS-DEBUG] Could not read doc:', err);
-    }
-    
+
+    this.logDocument(log, 'message.document-before');
+
     // Call parent handleMessage to handle Yjs sync
-    console.log('[YJS-DEBUG] 🔄 Calling super.handleMessage()...');
     try {
       super.handleMessage(connection, message);
-      console.log('[YJS-DEBUG] ✅ super.handleMessage() succeeded');
     } catch (err) {
-      console.log('[YJS-DEBUG] ❌❌❌ super.handleMessage() FAILED:', err);
-      console.log('[YJS-DEBUG] Error name:', (err as Error).name);
-      console.log('[YJS-DEBUG] Error message:', (err as Error).message);
-      console.log('[YJS-DEBUG] Error stack:', (err as Error).stack);
+      log.error('message.yserver-failed', { error: err });
       throw err; // Re-throw to see full error
     }
-    
-    console.log('[YJS-DEBUG] Yjs doc state AFTER processing:');
-    try {
-      const docState = this.document.toJSON();
-      console.log('[YJS-DEBUG] Doc content:', JSON.stringify(docState));
-      console.log('[YJS-DEBUG] Doc size:', JSON.stringify(docState).length, 'bytes');
-    } catch (err) {
-      console.log('[YJS-DEBUG] Could not read doc:', err);
-    }
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+
+    this.logDocument(log, 'message.document-after');
 
     // For custom (non-Yjs) messages, broadcast to all
     if (!isYjsMessage) {
-      console.log('\n[MESSAGE-BROADCAST] Broadcasting custom message to', apiCount, 'connections');
       const broadcastMsg = JSON.stringify({
         type: 'broadcast',
         originalMessage: typeof message === 'string' ? message : '<binary>',
@@ -303,42 +242,40 @@ export class YPartyKitTestServer extends YServer {
         serverTime: new Date().toISOString(),
         connectionCount: apiCount
       });
-      
+
       this.broadcast(broadcastMsg);
-      console.log('[MESSAGE-BROADCAST] Broadcast complete');
+      log.debug('broadcast.message', { connections: apiCount });
     }
   }
 
   async onClose(connection: Connection, code: number, reason: string, wasClean: boolean): Promise<void> {
     const timeSinceCreation = Date.now() - this.instanceCreatedAt;
-    
-    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-    console.log('[CLOSE] ❌ Connection closing');
-    console.log('[CLOSE] Connection ID:', connection.id.substring(0, 12) + '...');
-    console.log('[CLOSE] Timestamp:', new Date().toISOString());
-    console.log('[CLOSE] Time since instance creation:', timeSinceCreation, 'ms');
-    
-    if (timeSinceCreation < 1000) {
-      console.log('[CLOSE] 🔥 HIBERNATION - Disconnect on fresh instance after hibernation!');
-    }
-    
+    const log = this.eventLog(connection.server, connection);
+    this.ctx.waitUntil(this.metrics.closed(code));
+
+    log.info('close', {
+      code,
+      reason,
+      wasClean,
+      instanceAgeMs: timeSinceCreation,
+      // Disconnect handled by a fresh instance = the DO hibernated in between
+      hibernationWake: timeSinceCreation < 1000
+    });
+
     // Delayed check to get accurate count after connection is removed
     setTimeout(() => {
       const connections = Array.from(this.getConnections());
       const connectionCount = connections.length;
       const mode = connectionCount <= 1 ? 'solo' : 'multi';
-      
-      console.log('[CLOSE-DELAYED] Final connection count:', connectionCount);
-      console.log('[CLOSE-DELAYED] Mode:', mode);
-      
+
       // Verify raw API
       try {
         const rawCount = this.ctx.getWebSockets().length;
-        console.log('[CLOSE-DELAYED] Raw API count:', rawCount, rawCount === connectionCount ? '✅ matches' : '❌ mismatch');
+        log.debug('close.api-check', { connections: connectionCount, rawSockets: rawCount, match: rawCount === connectionCount, mode });
       } catch (err) {
-        console.log('[CLOSE-DELAYED] Raw API error:', err);
+        log.warn('close.raw-api-failed', { error: err });
       }
-      
+
       // 🎯 BROADCAST UPDATED CONNECTION COUNT
       const disconnectInfo = {
         type: 'connection-count',
@@ -347,38 +284,76 @@ export class YPartyKitTestServer extends YServer {
         event: 'disconnect',
         timestamp: new Date().toISOString()
       };
-      console.log('[BROADCAST] Broadcasting to remaining clients:', disconnectInfo);
+      log.debug('broadcast.connection-count', disconnectInfo);
       this.broadcast(JSON.stringify(disconnectInfo));
+
+      this.ctx.waitUntil(this.ledger.record('close', 'websocket', connectionCount, { connectionId: connection.id, code, wasClean }));
+      if (connectionCount === 0) {
+        this.ctx.waitUntil(this.ledger.record('sleep-candidate', 'last-close', 0));
+      }
     }, 0);
-    
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-    
+
     // Call parent onClose to handle Yjs cleanup
     await super.onClose(connection, code, reason, wasClean);
   }
 
+  // Every broadcast from this class is counted for /metrics
+  override broadcast(msg: string | ArrayBuffer | ArrayBufferView, without?: string[]) {
+    let recipients = 0;
+    for (const conn of this.getConnections()) {
+      if (!without?.includes(conn.id)) recipients++;
+    }
+    super.broadcast(msg, without);
+    this.metrics.broadcast();
+    this.ctx.waitUntil(this.metrics.sent(messageBytes(msg), recipients));
+  }
+
   async onError(connection: Connection, error: unknown): Promise<void> {
-    console.log('[ERROR] WebSocket error:', error);
+    this.eventLog(connection.server, connection).error('websocket.error', { error });
+  }
+
+  /**
+   * Logger for one incoming event. `room` is passed in because this.name
+   * isn't set yet when an alarm wakes the object.
+   */
+  private eventLog(room: string | undefined, connection?: Connection, request?: Request): Logger {
+    return this.log.child({
+      room: room ?? null,
+      ...(connection ? { connectionId: connection.id } : {}),
+      correlationId: correlationId(request)
+    });
+  }
+
+  // Full document dump - only built when debug is on
+  private logDocument(log: Logger, event: string) {
+    if (!log.isEnabled('debug')) return;
+    try {
+      const content = JSON.stringify(this.document.toJSON());
+      log.debug(event, { content, bytes: content.length });
+    } catch (err) {
+      log.warn(`${event}-failed`, { error: err });
+    }
   }
 
   async onRequest(request: Request): Promise<Response> {
     const url = new URL(request.url);
-    
+    const log = this.eventLog(this.name, undefined, request);
+
     // Status endpoint - check if path ends with /status
     if (url.pathname.endsWith('/status')) {
       // getConnections() count (PartyServer API)
       const connections = Array.from(this.getConnections());
       const apiCount = connections.length;
-      
+
       // Try raw Cloudflare API
       let rawCount = 0;
       try {
         const rawSockets = this.ctx.getWebSockets();
         rawCount = rawSockets.length;
       } catch (err) {
-        console.log('[STATUS] ❌ Could not access ctx.getWebSockets:', err);
+        log.warn('status.raw-api-failed', { error: err });
       }
-      
+
       // Get Yjs document state
       let yjsState = {};
       let yjsStateSize = 0;
@@ -386,9 +361,9 @@ export class YPartyKitTestServer extends YServer {
         yjsState = this.document.toJSON();
         yjsStateSize = JSON.stringify(yjsState).length;
       } catch (err) {
-        console.log('[STATUS] ❌ Could not access Yjs doc:', err);
+        log.warn('status.document-failed', { error: err });
       }
-      
+
       const status = {
         connectionCount: apiCount,
         rawCloudflareCount: rawCount,
@@ -405,18 +380,39 @@ export class YPartyKitTestServer extends YServer {
           preview: JSON.stringify(yjsState).substring(0, 200)
         }
       };
-      
-      console.log('[STATUS]', status);
-      
+
+      log.debug('status', status);
+
       return new Response(JSON.stringify(status, null, 2), {
-        headers: { 
-          'Content-Type': 'application/json', 
-          'Access-Control-Allow-Origin': '*' 
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        }
+      });
+    }
+
+    if (url.pathname.endsWith('/metrics')) {
+      return new Response(await this.metrics.render({
+        room: this.name,
+        connections: Array.from(this.getConnections()).length
+      }), { headers: { 'Content-Type': METRICS_CONTENT_TYPE } });
+    }
+
+    if (url.pathname.endsWith('/hibernation-history')) {
+      const type = url.searchParams.get('type') as LedgerEventType | null;
+      const limit = url.searchParams.get('limit');
+      return new Response(JSON.stringify(await this.ledger.history({
+        type: type ?? undefined,
+        limit: limit ? parseInt(limit, 10) : undefined
+      }), null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
         }
       });
     }
-    
-    return new Response('Y-PartyServer Test - Status available at /status', {
+
+    return new Response('Y-PartyServer Test - Status available at /status, hibernation ledger at /hibernation-history, metrics at /metrics', {
       headers: { 'Access-Control-Allow-Origin': '*' }
     });
   }